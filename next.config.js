@@ -5,6 +5,9 @@
 import "./src/env.js";
 
 /** @type {import("next").NextConfig} */
-const config = {};
+const config = {
+  // pdf.js loads its worker from disk at runtime, so keep it out of the bundle.
+  serverExternalPackages: ["pdfjs-dist"],
+};
 
 export default config;
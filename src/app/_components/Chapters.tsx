@@ -0,0 +1,247 @@
+import { api } from "~/trpc/react";
+import { type JobSummary } from "~/server/jobs";
+import { TrackedAudio } from "./TrackedAudio";
+
+interface Chapter {
+  id: number;
+  number: number;
+  title: string;
+  startPageNumber: number;
+  endPageNumber: number;
+  activeAudioFileId: number | null;
+  isAudioStale: boolean;
+  detachedAt: Date | null;
+  audioFiles: AudioFile[];
+}
+
+interface AudioFile {
+  filePath: string;
+  id: number;
+  voice: string | null;
+  durationMs: number | null;
+  createdAt: Date;
+}
+
+interface ChaptersProps {
+  documentId: number;
+  chapters: Chapter[];
+  jobs: JobSummary[];
+  refetchDocuments: () => Promise<unknown>;
+}
+
+export function Chapters({
+  documentId,
+  chapters,
+  jobs,
+  refetchDocuments,
+}: ChaptersProps) {
+  // Latest chapter job per chapter, kept up to date by the job subscription
+  const chapterJobs = new Map<number, JobSummary>();
+  for (const job of jobs) {
+    if (job.kind !== "chapter" || !job.chapterId) continue;
+    const current = chapterJobs.get(job.chapterId);
+    if (!current || current.id < job.id) chapterJobs.set(job.chapterId, job);
+  }
+
+  const detectChapters = api.document.detectChapters.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error detecting chapters:", error);
+    },
+  });
+
+  const generateChapters = api.document.generateChapters.useMutation({
+    onError: (error) => {
+      console.error("Error generating chapter audio:", error);
+    },
+  });
+
+  const generateDocument = api.document.generateDocument.useMutation({
+    onError: (error) => {
+      console.error("Error generating document audio:", error);
+    },
+  });
+
+  const setActiveChapterAudio = api.document.setActiveChapterAudio.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error selecting take:", error);
+    },
+  });
+
+  const deleteChapter = api.document.deleteChapter.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error deleting chapter:", error);
+    },
+  });
+
+  return (
+    <details className="mt-4">
+      <summary className="cursor-pointer text-sm">
+        Chapters ({chapters.length})
+      </summary>
+      <div className="mt-2 grid gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() =>
+              generateDocument.mutate({ documentId, by: "chapter" })
+            }
+            disabled={generateDocument.isPending || chapters.length === 0}
+            className="flex-1 rounded-md bg-white/5 p-2 text-sm hover:bg-white/10"
+          >
+            Generate all chapters
+          </button>
+          <button
+            onClick={() => detectChapters.mutate({ documentId })}
+            disabled={detectChapters.isPending}
+            className="rounded-md bg-white/5 p-2 text-sm hover:bg-white/10"
+          >
+            Detect chapters
+          </button>
+        </div>
+        {chapters.map((chapter) => {
+          const chapterJob = chapterJobs.get(chapter.id);
+          const isGenerating =
+            (generateChapters.isPending &&
+              generateChapters.variables?.chapterIds.includes(chapter.id)) ||
+            (!!chapterJob && !chapterJob.isFinished);
+
+          // Takes are ordered newest first
+          const activeAudioFile =
+            chapter.audioFiles.find(
+              (audioFile) => audioFile.id === chapter.activeAudioFileId,
+            ) ?? chapter.audioFiles[0];
+          const otherTakes = chapter.audioFiles.filter(
+            (audioFile) => audioFile.id !== activeAudioFile?.id,
+          );
+
+          return (
+            <div key={chapter.id} className="rounded-lg bg-white/5 p-4">
+              <div className="flex items-center gap-2">
+                <p className="flex-1">
+                  {chapter.number}. {chapter.title}
+                  <span className="ml-2 text-xs text-purple-200">
+                    {chapter.startPageNumber === chapter.endPageNumber
+                      ? `Page ${chapter.startPageNumber}`
+                      : `Pages ${chapter.startPageNumber}–${chapter.endPageNumber}`}
+                  </span>
+                </p>
+                {chapter.detachedAt ? (
+                  <>
+                    <span className="text-xs text-yellow-200">
+                      Heading removed from text
+                    </span>
+                    <button
+                      className="rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                      onClick={() =>
+                        deleteChapter.mutate({
+                          documentId,
+                          chapterId: chapter.id,
+                        })
+                      }
+                      disabled={deleteChapter.isPending}
+                    >
+                      Delete
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {chapter.isAudioStale && (
+                      <span className="text-xs text-yellow-200">
+                        Audio out of date
+                      </span>
+                    )}
+                    <button
+                      className="flex items-center rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                      onClick={() =>
+                        generateChapters.mutate({
+                          documentId,
+                          chapterIds: [chapter.id],
+                        })
+                      }
+                      disabled={isGenerating}
+                    >
+                      {isGenerating && (
+                        <span className="mr-2 block size-4 animate-spin rounded-full border-2 border-dashed"></span>
+                      )}
+                      Generate
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {activeAudioFile && (
+                <TrackedAudio
+                  documentId={documentId}
+                  pageId={null}
+                  audioFileId={activeAudioFile.id}
+                  className="mt-2 w-full"
+                  src={activeAudioFile.filePath}
+                />
+              )}
+
+              {otherTakes.length > 0 && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-purple-200">
+                    Other takes ({otherTakes.length})
+                  </summary>
+                  {otherTakes.map((audioFile) => (
+                    <div
+                      key={audioFile.id}
+                      className="mt-2 flex items-center gap-2"
+                    >
+                      <audio
+                        controls
+                        className="flex-1"
+                        src={audioFile.filePath}
+                      >
+                        Your browser does not support the audio element.
+                      </audio>
+                      <span className="text-xs text-purple-200">
+                        {audioFile.createdAt.toLocaleString()}
+                      </span>
+                      <button
+                        className="rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                        onClick={() =>
+                          setActiveChapterAudio.mutate({
+                            documentId,
+                            chapterId: chapter.id,
+                            audioFileId: audioFile.id,
+                          })
+                        }
+                        disabled={setActiveChapterAudio.isPending}
+                      >
+                        Use this take
+                      </button>
+                    </div>
+                  ))}
+                </details>
+              )}
+
+              {chapterJob?.status === "queued" && (
+                <p className="mt-1 text-xs text-purple-200">Queued</p>
+              )}
+              {chapterJob?.status === "completed" && chapterJob.cacheHit && (
+                <p className="mt-1 text-xs text-purple-200">
+                  Reused cached audio
+                </p>
+              )}
+              {chapterJob?.status === "failed" && (
+                <p className="mt-1 text-xs text-red-300">
+                  Failed: {chapterJob.error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
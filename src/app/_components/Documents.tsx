@@ -1,8 +1,18 @@
 "use client";
 
+import { useState } from "react";
 import { UploadButton } from "~/utils/uploadthing";
 import { api } from "~/trpc/react";
+import { Chapters } from "./Chapters";
 import { Pages } from "./Pages";
+import { PodcastFeed } from "./PodcastFeed";
+import { ShareLinks } from "./ShareLinks";
+import { SpeechSettings } from "./SpeechSettings";
+import { SynthesisSettings } from "./SynthesisSettings";
+import { Trash } from "./Trash";
+import { UsageSummary } from "./UsageSummary";
+import { VoicePicker } from "./VoicePicker";
+import { type JobSummary } from "~/server/jobs";
 
 /**
  * Component to display and manage documents.
@@ -12,6 +22,29 @@ export function Documents() {
   const { data: documents, refetch: refetchDocuments } =
     api.document.getAll.useQuery();
 
+  // Private feed URL, used for the per-document feed links.
+  const { data: feed } = api.feed.get.useQuery();
+
+  // Generation jobs pushed by the server as they change.
+  const [jobs, setJobs] = useState<Record<number, JobSummary>>({});
+
+  api.job.onUpdate.useSubscription(undefined, {
+    onData: ({ data: job }) => {
+      setJobs((jobs) => ({ ...jobs, [job.id]: job }));
+
+      // Show the new audio as soon as a page or chapter finishes.
+      if (
+        (job.kind === "page" || job.kind === "chapter") &&
+        job.status === "completed"
+      ) {
+        void refetchDocuments();
+      }
+    },
+    onError: (error) => {
+      console.error("Error receiving job updates:", error);
+    },
+  });
+
   /**
    * Function to create a new document using the create mutation.
    */
@@ -27,11 +60,38 @@ export function Documents() {
     },
   });
 
-  const deleteDocument = api.document.delete.useMutation({
+  // URL of a web article to import.
+  const [articleUrl, setArticleUrl] = useState("");
+
+  const createFromUrl = api.document.createFromUrl.useMutation({
+    onSuccess: async () => {
+      setArticleUrl("");
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error importing article:", error);
+    },
+  });
+
+  const updateVoice = api.document.updateVoice.useMutation({
     onSuccess: async () => {
-      // Refetch documents after successful deletion.
       await refetchDocuments();
     },
+    onError: (error) => {
+      console.error("Error updating voice:", error);
+    },
+  });
+
+  const utils = api.useUtils();
+
+  const deleteDocument = api.document.delete.useMutation({
+    onSuccess: async () => {
+      // Refetch documents after moving one to the trash.
+      await Promise.all([
+        refetchDocuments(),
+        utils.document.getTrash.invalidate(),
+      ]);
+    },
     onError: (error) => {
       // Log any errors that occur during document deletion.
       console.error("Error deleting document:", error);
@@ -40,16 +100,22 @@ export function Documents() {
 
   return (
     <div>
+      {/* Characters used against the monthly quota. */}
+      <UsageSummary />
+
+      {/* Private podcast feed of the user's audiobooks. */}
+      <PodcastFeed />
+
       {/* Upload button to upload new documents. */}
       <UploadButton
-        endpoint="pdfUploader"
+        endpoint="documentUploader"
         onClientUploadComplete={async (res) => {
           // Check if the uploaded file is valid.
           if (!res?.[0]) return;
           console.log(res[0].url);
-          // Create a new document using the file URL and name.
+          // Create a new document from the uploaded file.
           await createDocument.mutateAsync({
-            fileUrl: res[0].url,
+            fileKey: res[0].key,
             name: res[0].name,
           });
         }}
@@ -66,6 +132,36 @@ export function Documents() {
         }}
       />
 
+      {/* Form to import a web article instead of uploading a file. */}
+      <form
+        className="mx-auto my-4 flex max-w-md gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createFromUrl.mutate({ url: articleUrl });
+        }}
+      >
+        <input
+          type="url"
+          required
+          placeholder="https://example.com/article"
+          value={articleUrl}
+          onChange={(e) => setArticleUrl(e.target.value)}
+          className="flex-1 rounded-md bg-white/10 p-2 text-sm text-white"
+        />
+        <button
+          type="submit"
+          disabled={createFromUrl.isPending}
+          className="rounded-md bg-fuchsia-500 px-4 py-2 text-sm text-white hover:bg-fuchsia-400"
+        >
+          {createFromUrl.isPending ? "Importing..." : "Import article"}
+        </button>
+      </form>
+      {createFromUrl.error && (
+        <p className="mb-4 text-center text-sm text-red-300">
+          {createFromUrl.error.message}
+        </p>
+      )}
+
       {/* Render all uploaded documents. */}
       {documents?.map((document) => (
         <div
@@ -73,28 +169,91 @@ export function Documents() {
           key={document.id}
         >
           <div className="flex items-center justify-between">
-            <div className="justify-left flex flex-col items-center">
+            <div className="justify-left flex flex-col items-start gap-1">
               <p>{document.name}</p>
+              {document.sourceUrl && (
+                <a
+                  href={document.sourceUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-xs text-purple-200 underline"
+                >
+                  {new URL(document.sourceUrl).hostname}
+                </a>
+              )}
+              {feed?.path && (
+                <a
+                  href={`${feed.path}/${document.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-xs text-purple-200 underline"
+                >
+                  Podcast feed
+                </a>
+              )}
+              <VoicePicker
+                value={document.voice}
+                inheritLabel="Default voice"
+                disabled={updateVoice.isPending}
+                onChange={(voice) =>
+                  updateVoice.mutate({ documentId: document.id, voice })
+                }
+              />
             </div>
 
             <button
               className="mb-2 mt-2 rounded bg-red-500 px-4 py-2 font-bold text-white hover:bg-red-700"
-              onClick={() => deleteDocument.mutateAsync({ id: document.id })}
+              onClick={() =>
+                deleteDocument.mutateAsync({ documentId: document.id })
+              }
             >
               Delete
             </button>
           </div>
 
+          {/* Options for preparing the text before synthesis. */}
+          <SpeechSettings
+            documentId={document.id}
+            speechOptions={document.speechOptions}
+            refetchDocuments={refetchDocuments}
+          />
+
+          {/* Model and voice settings used for synthesis. */}
+          <SynthesisSettings
+            documentId={document.id}
+            synthesisProfile={document.synthesisProfile}
+            refetchDocuments={refetchDocuments}
+          />
+
+          {/* Public links to the finished audiobook. */}
+          <ShareLinks documentId={document.id} />
+
+          {/* Chapters detected from the document headings. */}
+          <Chapters
+            documentId={document.id}
+            chapters={document.chapters}
+            jobs={Object.values(jobs).filter(
+              (job) => job.documentId === document.id,
+            )}
+            refetchDocuments={refetchDocuments}
+          />
+
           {/* Render each page of the document. */}
           <Pages
             documentId={document.id}
             documentName={document.name}
             pages={document.pages}
+            audiobooks={document.audiobooks}
+            jobs={Object.values(jobs).filter(
+              (job) => job.documentId === document.id,
+            )}
             refetchDocuments={refetchDocuments}
-            voice={"my2nUXZc8WyNijMOfltw"}
           />
         </div>
       ))}
+
+      {/* Deleted documents that can still be restored. */}
+      <Trash refetchDocuments={refetchDocuments} />
     </div>
   );
 }
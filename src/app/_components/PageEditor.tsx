@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+interface PageEditorProps {
+  documentId: number;
+  pageId: number;
+  content: string;
+  refetchDocuments: () => Promise<unknown>;
+}
+
+/**
+ * Edit the extracted text of a page and browse its earlier revisions.
+ */
+export function PageEditor({
+  documentId,
+  pageId,
+  content,
+  refetchDocuments,
+}: PageEditorProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: revisions, refetch: refetchRevisions } =
+    api.page.revisions.useQuery(
+      { documentId, pageId },
+      { enabled: showHistory },
+    );
+
+  const updatePage = api.page.update.useMutation({
+    onSuccess: async () => {
+      setDraft(null);
+      await Promise.all([
+        refetchDocuments(),
+        showHistory ? refetchRevisions() : undefined,
+      ]);
+    },
+    onError: (error) => {
+      console.error("Error updating page:", error);
+    },
+  });
+
+  if (draft === null) {
+    return (
+      <button
+        className="mb-2 mt-2 rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+        onClick={() => setDraft(content)}
+      >
+        Edit text
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 grid w-full gap-2">
+      <textarea
+        className="h-48 w-full rounded-md bg-black/20 p-2 text-sm text-white"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          className="rounded-md bg-white/10 p-2 hover:bg-white/20"
+          onClick={() =>
+            updatePage.mutate({ documentId, pageId, content: draft })
+          }
+          disabled={updatePage.isPending || !draft.trim()}
+        >
+          Save
+        </button>
+        <button
+          className="rounded-md bg-white/5 p-2 hover:bg-white/10"
+          onClick={() => setDraft(null)}
+        >
+          Cancel
+        </button>
+        <button
+          className="rounded-md bg-white/5 p-2 hover:bg-white/10"
+          onClick={() => setShowHistory(!showHistory)}
+        >
+          {showHistory ? "Hide history" : "History"}
+        </button>
+      </div>
+      {showHistory && (
+        <ul className="grid gap-1 text-xs text-purple-200">
+          {revisions?.length === 0 && <li>No earlier revisions</li>}
+          {revisions?.map((revision) => (
+            <li key={revision.id} className="flex items-center gap-2">
+              <span className="flex-1">
+                {revision.source === "extracted"
+                  ? "Extracted text"
+                  : `Edited by ${revision.creator?.name ?? "unknown"}`}{" "}
+                · {revision.createdAt.toLocaleString()}
+              </span>
+              <button
+                className="rounded-md bg-white/10 p-1 hover:bg-white/20"
+                onClick={() => setDraft(revision.content)}
+              >
+                Load
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect } from "react";
 import { api } from "~/trpc/react";
-import { audioBufferToWav } from "~/utils/download-audio";
+import { type JobSummary } from "~/server/jobs";
+import { PageEditor } from "./PageEditor";
+import { Reader } from "./Reader";
+import { TrackedAudio } from "./TrackedAudio";
+import { VoicePicker } from "./VoicePicker";
 
 interface Page {
   documentId: number;
@@ -8,52 +12,61 @@ interface Page {
   createdAt: Date;
   pageNumber: number;
   content: string;
-  audioFiles: {
-    filePath: string;
-    fileName: string;
-    id: number;
-  }[];
+  voice: string | null;
+  activeAudioFileId: number | null;
+  isAudioStale: boolean;
+  audioFiles: AudioFile[];
+}
+
+interface AudioFile {
+  filePath: string;
+  fileName: string;
+  id: number;
+  voice: string | null;
+  model: string | null;
+  durationMs: number | null;
+  createdAt: Date;
+}
+
+interface Audiobook {
+  id: number;
+  status: "pending" | "processing" | "completed" | "failed";
+  url: string | null;
+  fileName: string | null;
+  error: string | null;
 }
 
 interface PagesProps {
   documentId: number;
   documentName: string;
-  voice: string;
   pages: Page[];
+  audiobooks: Audiobook[];
+  jobs: JobSummary[];
   refetchDocuments: () => Promise<unknown>;
 }
 
 export function Pages({
   documentId,
   documentName,
-  voice,
   pages,
+  audiobooks,
+  jobs,
   refetchDocuments,
 }: PagesProps) {
   const [pageIdActive, setPageIdActive] = useState<null | number>(null);
-
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(
-    null,
-  );
-
-  useEffect(() => {
-    return () => {
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-    };
-  }, [pollingInterval]);
+  const [readerPageId, setReaderPageId] = useState<null | number>(null);
 
   const generateAudio = api.document.generateAudioBook.useMutation({
-    onSuccess: async (data) => {
-      const runId = data.pop()?.runId;
-      if (runId) {
-        console.log("Job started:", runId);
-        pollJobStatus(runId);
-      }
+    onSuccess: (data) => {
+      console.log(
+        "Jobs started:",
+        data.map((result) => result.jobId),
+      );
     },
     onError: (error) => {
       console.error("Error generating audio:", error);
+    },
+    onSettled: () => {
       setPageIdActive(null);
     },
   });
@@ -61,150 +74,332 @@ export function Pages({
   function handleGenerateAudio(pageId: number) {
     try {
       setPageIdActive(pageId);
-      generateAudio.mutate({ documentId, pageIds: [pageId], voice });
+      generateAudio.mutate({ documentId, pageIds: [pageId] });
     } catch (error) {
       console.error("Error generating audio:", error);
     }
   }
 
-  const getJobStatus = api.document.getJobStatus.useMutation({
-    onSuccess: async (data) => {
-      console.log("Job status:", data);
-      if (data.status === "COMPLETED") {
-        // Wait for a brief moment to ensure the audio file is available
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        await refetchDocuments();
-
-        if (pollingInterval) {
-          clearInterval(pollingInterval);
-          setPollingInterval(null);
-        }
-        setPageIdActive(null);
-      }
+  const stalePageIds = pages
+    .filter((page) => page.isAudioStale)
+    .map((page) => page.id);
+
+  // Latest page job per page, kept up to date by the job subscription
+  const pageJobs = new Map<number, JobSummary>();
+  for (const job of jobs) {
+    if (job.kind !== "page" || !job.pageId) continue;
+    const current = pageJobs.get(job.pageId);
+    if (!current || current.id < job.id) pageJobs.set(job.pageId, job);
+  }
+
+  const documentJob = jobs
+    .filter((job) => job.kind === "document")
+    .sort((a, b) => b.id - a.id)[0];
+
+  const updatePageVoice = api.document.updatePageVoice.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
     },
     onError: (error) => {
-      console.error("Error checking job status:", error);
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-        setPollingInterval(null);
-      }
-      setPageIdActive(null);
+      console.error("Error updating page voice:", error);
     },
   });
 
-  const pollJobStatus = (runId: string) => {
-    const interval = setInterval(() => {
-      console.log("Checking job status...");
-      getJobStatus.mutate({ runId });
-    }, 5000);
-    setPollingInterval(interval);
-  };
+  const setActiveAudio = api.document.setActiveAudio.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error selecting take:", error);
+    },
+  });
 
-  const handleDownloadAll = async (pages: Page[]) => {
-    const audioFiles = pages.flatMap((page) =>
-      page.audioFiles.filter((audio) => audio.filePath.length > 0),
-    );
+  const generateDocument = api.document.generateDocument.useMutation({
+    onSuccess: (data) => {
+      console.log("Document job started:", data.jobId);
+    },
+    onError: (error) => {
+      console.error("Error generating document audio:", error);
+    },
+  });
 
-    try {
-      // Create audio context
-      const AudioContext = window.AudioContext;
-      const audioContext = new AudioContext();
-      const audioBuffers: AudioBuffer[] = [];
-
-      // Fetch and decode all audio files
-      for (const audioFile of audioFiles) {
-        const response = await fetch(audioFile.filePath);
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        audioBuffers.push(audioBuffer);
-      }
-
-      // Calculate total duration
-      const totalLength = audioBuffers.reduce(
-        (acc, buffer) => acc + buffer.duration,
-        0,
-      );
-      const sampleRate = audioBuffers[0]?.sampleRate ?? 44100;
-      const numberOfChannels = audioBuffers[0]?.numberOfChannels ?? 1;
-
-      // Create the final buffer
-      const finalBuffer = audioContext.createBuffer(
-        numberOfChannels,
-        totalLength * sampleRate,
-        sampleRate,
-      );
+  const cancelJob = api.job.cancel.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error cancelling job:", error);
+    },
+  });
 
-      // Merge all buffers
-      let offset = 0;
-      for (const buffer of audioBuffers) {
-        for (let channel = 0; channel < numberOfChannels; channel++) {
-          const channelData = finalBuffer.getChannelData(channel);
-          channelData.set(buffer.getChannelData(channel), offset * sampleRate);
-        }
-        offset += buffer.duration;
-      }
-
-      // Convert to wav blob
-      const wavBlob = await audioBufferToWav(finalBuffer);
-
-      // Create download link
-      const url = URL.createObjectURL(wavBlob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${documentName}.wav`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error("Error merging audio files:", error);
-      alert("Error merging audio files. Falling back to individual downloads.");
-
-      // Fallback to individual downloads
-      for (const audioFile of audioFiles) {
-        const link = document.createElement("a");
-        link.href = audioFile.filePath;
-        link.download = audioFile.fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
-    }
-  };
+  const isDocumentJobRunning =
+    generateDocument.isPending || (!!documentJob && !documentJob.isFinished);
+
+  // Where the user stopped listening, on any device
+  const { data: progress } = api.progress.get.useQuery({ documentId });
+
+  const latestAudiobook = audiobooks[0];
+  const isAssembling =
+    latestAudiobook?.status === "pending" ||
+    latestAudiobook?.status === "processing";
+
+  // Refresh while the server is assembling the audiobook
+  useEffect(() => {
+    if (!isAssembling) return;
+
+    const interval = setInterval(() => {
+      void refetchDocuments();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [isAssembling, refetchDocuments]);
+
+  const assembleAudiobook = api.document.assembleAudiobook.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error assembling audiobook:", error);
+    },
+  });
 
   return (
     <div className="mt-8 grid gap-2">
-      <button
-        onClick={() => handleDownloadAll(pages)}
-        className="rounded-md bg-white/5 p-2 hover:bg-white/10"
-      >
-        Download audiobook
-      </button>
-      {pages.map((page) => (
-        <div key={page.id} className="mb-2 rounded-lg bg-white/5 p-4">
-          <div className="flex items-center gap-2">
-            <p className="mb-2">Page {page.pageNumber}</p>
-            {page.audioFiles.map((audioFile) => (
-              <div key={audioFile.id} className="mt-4 flex-1">
-                <audio controls className="w-full" src={audioFile.filePath}>
-                  Your browser does not support the audio element.
-                </audio>
-              </div>
-            ))}
-          </div>
-
+      <div className="flex items-center gap-2">
+        {isDocumentJobRunning ? (
+          <>
+            <p className="flex flex-1 items-center p-2 text-sm">
+              <span className="mr-2 block size-4 animate-spin rounded-full border-2 border-dashed"></span>
+              Generating: {documentJob?.progress.completed ?? 0} of{" "}
+              {documentJob?.progress.total ?? pages.length} done
+              {!!documentJob?.progress.failed &&
+                `, ${documentJob.progress.failed} failed`}
+            </p>
+            <button
+              onClick={() =>
+                documentJob && cancelJob.mutate({ jobId: documentJob.id })
+              }
+              disabled={!documentJob || cancelJob.isPending}
+              className="rounded-md bg-red-500/80 p-2 text-sm hover:bg-red-700"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
           <button
-            className="mb-2 mt-2 flex items-center rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
-            onClick={() => handleGenerateAudio(page.id)}
+            onClick={() => generateDocument.mutate({ documentId })}
+            disabled={generateDocument.isPending}
+            className="flex-1 rounded-md bg-white/5 p-2 hover:bg-white/10"
           >
-            {pageIdActive === page.id && (
-              <span className="mr-2 block size-4 animate-spin rounded-full border-2 border-dashed"></span>
-            )}
-            Generate audio
+            Generate entire document
           </button>
-        </div>
-      ))}
+        )}
+      </div>
+      {progress?.page && (
+        <p className="text-sm text-purple-200">
+          Continue listening: page {progress.page.pageNumber} at{" "}
+          {formatPosition(progress.positionMs)}
+        </p>
+      )}
+      {stalePageIds.length > 0 && (
+        <button
+          onClick={() =>
+            generateAudio.mutate({ documentId, pageIds: stalePageIds })
+          }
+          disabled={generateAudio.isPending}
+          className="rounded-md bg-yellow-500/20 p-2 text-sm hover:bg-yellow-500/30"
+        >
+          Regenerate {stalePageIds.length} outdated{" "}
+          {stalePageIds.length === 1 ? "page" : "pages"}
+        </button>
+      )}
+      {documentJob?.isFinished && (
+        <p className="text-sm text-purple-200">
+          {documentJob.status === "canceled" ? "Canceled after" : "Finished"}{" "}
+          {documentJob.progress.completed} of {documentJob.progress.total}
+          {!!documentJob.progress.failed &&
+            ` (${documentJob.progress.failed} failed)`}
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => assembleAudiobook.mutate({ documentId })}
+          disabled={isAssembling || assembleAudiobook.isPending}
+          className="flex flex-1 items-center justify-center rounded-md bg-white/5 p-2 hover:bg-white/10 disabled:cursor-not-allowed"
+        >
+          {isAssembling && (
+            <span className="mr-2 block size-4 animate-spin rounded-full border-2 border-dashed"></span>
+          )}
+          Build audiobook
+        </button>
+        {latestAudiobook?.status === "completed" && latestAudiobook.url && (
+          <a
+            href={`${latestAudiobook.url}?download=1`}
+            download={`${documentName}.${latestAudiobook.fileName?.split(".").pop() ?? "mp3"}`}
+            className="rounded-md bg-white/5 p-2 hover:bg-white/10"
+          >
+            Download audiobook
+          </a>
+        )}
+      </div>
+      {latestAudiobook?.status === "failed" && (
+        <p className="text-sm text-red-300">
+          Failed to build audiobook: {latestAudiobook.error}
+        </p>
+      )}
+      {pages.map((page) => {
+        const pageJob = pageJobs.get(page.id);
+        const isGenerating =
+          pageIdActive === page.id || (!!pageJob && !pageJob.isFinished);
+
+        // Takes are ordered newest first; older rows may predate the pointer
+        const activeAudioFile =
+          page.audioFiles.find(
+            (audioFile) => audioFile.id === page.activeAudioFileId,
+          ) ?? page.audioFiles[0];
+        const otherTakes = page.audioFiles.filter(
+          (audioFile) => audioFile.id !== activeAudioFile?.id,
+        );
+
+        return (
+          <div key={page.id} className="mb-2 rounded-lg bg-white/5 p-4">
+            <div className="flex items-center gap-2">
+              <p className="mb-2">Page {page.pageNumber}</p>
+              {page.isAudioStale && (
+                <span className="mb-2 text-xs text-yellow-200">
+                  Audio out of date
+                </span>
+              )}
+              {activeAudioFile && (
+                <div className="mt-4 flex-1">
+                  <TrackedAudio
+                    documentId={documentId}
+                    pageId={page.id}
+                    audioFileId={activeAudioFile.id}
+                    className="w-full"
+                    src={activeAudioFile.filePath}
+                  />
+                  <p className="mt-1 text-xs text-purple-200">
+                    Active take: {describeTake(activeAudioFile)}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {otherTakes.length > 0 && (
+              <details className="mt-2">
+                <summary className="cursor-pointer text-xs text-purple-200">
+                  Other takes ({otherTakes.length})
+                </summary>
+                {otherTakes.map((audioFile) => (
+                  <div
+                    key={audioFile.id}
+                    className="mt-2 flex items-center gap-2"
+                  >
+                    <audio controls className="flex-1" src={audioFile.filePath}>
+                      Your browser does not support the audio element.
+                    </audio>
+                    <span className="text-xs text-purple-200">
+                      {describeTake(audioFile)}
+                    </span>
+                    <button
+                      className="rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                      onClick={() =>
+                        setActiveAudio.mutate({
+                          documentId,
+                          pageId: page.id,
+                          audioFileId: audioFile.id,
+                        })
+                      }
+                      disabled={setActiveAudio.isPending}
+                    >
+                      Use this take
+                    </button>
+                  </div>
+                ))}
+              </details>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                className="mb-2 mt-2 flex items-center rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                onClick={() => handleGenerateAudio(page.id)}
+                disabled={isGenerating}
+              >
+                {isGenerating && (
+                  <span className="mr-2 block size-4 animate-spin rounded-full border-2 border-dashed"></span>
+                )}
+                Generate audio
+              </button>
+              {activeAudioFile && (
+                <button
+                  className="rounded-md bg-white/10 p-2 text-xs hover:bg-white/20"
+                  onClick={() =>
+                    setReaderPageId(readerPageId === page.id ? null : page.id)
+                  }
+                >
+                  {readerPageId === page.id ? "Close reader" : "Read along"}
+                </button>
+              )}
+              <PageEditor
+                documentId={documentId}
+                pageId={page.id}
+                content={page.content}
+                refetchDocuments={refetchDocuments}
+              />
+              <VoicePicker
+                value={page.voice}
+                inheritLabel="Document voice"
+                disabled={updatePageVoice.isPending}
+                onChange={(voice) =>
+                  updatePageVoice.mutate({ documentId, pageId: page.id, voice })
+                }
+              />
+              {pageJob?.status === "queued" && (
+                <span className="text-xs text-purple-200">Queued</span>
+              )}
+              {pageJob?.status === "running" && pageJob.attempts > 1 && (
+                <span className="text-xs text-yellow-200">
+                  Retrying (attempt {pageJob.attempts})
+                </span>
+              )}
+              {pageJob?.status === "completed" && pageJob.cacheHit && (
+                <span className="text-xs text-purple-200">
+                  Reused cached audio
+                </span>
+              )}
+              {pageJob?.status === "failed" && (
+                <span className="text-xs text-red-300">
+                  Failed: {pageJob.error}
+                </span>
+              )}
+            </div>
+
+            {readerPageId === page.id && (
+              <Reader documentId={documentId} pageId={page.id} />
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 }
+
+function formatPosition(positionMs: number) {
+  const seconds = Math.floor(positionMs / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Short label telling takes of the same page apart.
+ */
+function describeTake(audioFile: AudioFile) {
+  return [
+    audioFile.createdAt.toLocaleString(),
+    audioFile.voice,
+    audioFile.model,
+    audioFile.durationMs !== null &&
+      `${Math.round(audioFile.durationMs / 1000)}s`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
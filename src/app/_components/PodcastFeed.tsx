@@ -0,0 +1,59 @@
+import { api } from "~/trpc/react";
+
+/**
+ * Private podcast feed URL of the user, with a way to rotate its token.
+ */
+export function PodcastFeed() {
+  const utils = api.useUtils();
+  const { data: feed } = api.feed.get.useQuery();
+
+  const rotateToken = api.feed.rotateToken.useMutation({
+    onSuccess: async () => {
+      await utils.feed.get.invalidate();
+    },
+    onError: (error) => {
+      console.error("Error rotating feed token:", error);
+    },
+  });
+
+  if (!feed) return null;
+
+  return (
+    <div className="mx-auto mb-8 flex max-w-md flex-col gap-1 text-xs text-purple-200">
+      {feed.path ? (
+        <>
+          <span>Podcast feed for your audiobooks:</span>
+          <input
+            readOnly
+            value={`${window.location.origin}${feed.path}`}
+            onFocus={(e) => e.target.select()}
+            className="rounded-md bg-white/10 p-1 text-white"
+          />
+          <button
+            onClick={() => {
+              if (
+                confirm(
+                  "Podcast apps subscribed to the current feed will stop updating. Continue?",
+                )
+              ) {
+                rotateToken.mutate();
+              }
+            }}
+            disabled={rotateToken.isPending}
+            className="self-start underline"
+          >
+            Reset feed link
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={() => rotateToken.mutate()}
+          disabled={rotateToken.isPending}
+          className="rounded-md bg-white/5 p-2 hover:bg-white/10"
+        >
+          Listen in a podcast app
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { api } from "~/trpc/react";
+import { type Alignment } from "~/server/tts/alignment";
+import { useListeningProgress } from "./useListeningProgress";
+
+interface ReaderProps {
+  documentId: number;
+  pageId: number;
+}
+
+interface Sentence {
+  start: number;
+  end: number;
+  startMs: number;
+  // Index of the first word of the sentence
+  firstWord: number;
+  lastWord: number;
+}
+
+/**
+ * Group words into sentences at terminal punctuation, so a click can seek to
+ * the start of a sentence.
+ */
+function getSentences({ text, words }: Alignment): Sentence[] {
+  const sentences: Sentence[] = [];
+  let current: Sentence | undefined;
+
+  words.forEach((word, index) => {
+    if (!current) {
+      current = {
+        start: word.start,
+        end: word.end,
+        startMs: word.startMs,
+        firstWord: index,
+        lastWord: index,
+      };
+      sentences.push(current);
+    }
+
+    current.end = word.end;
+    current.lastWord = index;
+
+    if (/[.!?…]["'”’)\]]*$/.test(text.slice(word.start, word.end))) {
+      current = undefined;
+    }
+  });
+
+  return sentences;
+}
+
+/**
+ * Index of the word being spoken at `timeMs`, or -1 before the first word.
+ */
+function findWord({ words }: Alignment, timeMs: number) {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (words[middle]!.startMs <= timeMs) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+}
+
+export function Reader({ documentId, pageId }: ReaderProps) {
+  const { data, isLoading } = api.page.readAlong.useQuery({
+    documentId,
+    pageId,
+  });
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentWord, setCurrentWord] = useState(-1);
+
+  // The reader shares the resume point with the page player
+  useListeningProgress(audioRef, {
+    documentId,
+    pageId,
+    audioFileId: data?.audioFileId,
+  });
+
+  const alignment = data?.alignment;
+  const sentences = useMemo(
+    () => (alignment ? getSentences(alignment) : []),
+    [alignment],
+  );
+
+  // Follow playback every frame; `timeupdate` fires too rarely for words
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !alignment) return;
+
+    let frame = 0;
+    const update = () => {
+      setCurrentWord(findWord(alignment, audio.currentTime * 1000));
+      if (!audio.paused) frame = requestAnimationFrame(update);
+    };
+
+    audio.addEventListener("play", update);
+    audio.addEventListener("seeked", update);
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener("play", update);
+      audio.removeEventListener("seeked", update);
+    };
+  }, [alignment]);
+
+  function seek(sentence: Sentence) {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = sentence.startMs / 1000;
+    void audio.play();
+  }
+
+  if (isLoading) {
+    return <p className="mt-2 text-xs text-purple-200">Loading reader…</p>;
+  }
+
+  if (!data || !alignment) {
+    return (
+      <p className="mt-2 text-xs text-purple-200">
+        Generate audio for this page to read along.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 rounded-md bg-black/20 p-4">
+      <audio ref={audioRef} controls className="w-full" src={data.url}>
+        Your browser does not support the audio element.
+      </audio>
+      <p className="mt-4 whitespace-pre-wrap leading-relaxed">
+        {alignment.text.slice(0, sentences[0]?.start ?? alignment.text.length)}
+        {sentences.map((sentence, index) => (
+          <span key={sentence.start}>
+            <span
+              onClick={() => seek(sentence)}
+              className="cursor-pointer rounded hover:bg-white/10"
+            >
+              {renderWords(alignment, sentence, currentWord)}
+            </span>
+            {alignment.text.slice(
+              sentence.end,
+              sentences[index + 1]?.start ?? alignment.text.length,
+            )}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+}
+
+function renderWords(
+  alignment: Alignment,
+  sentence: Sentence,
+  currentWord: number,
+) {
+  const parts = [];
+
+  for (let index = sentence.firstWord; index <= sentence.lastWord; index++) {
+    const word = alignment.words[index]!;
+    const next = alignment.words[index + 1];
+
+    parts.push(
+      <span
+        key={word.start}
+        className={
+          index === currentWord ? "rounded bg-yellow-300/40" : undefined
+        }
+      >
+        {alignment.text.slice(word.start, word.end)}
+      </span>,
+      // Whitespace and markup between this word and the next
+      index < sentence.lastWord &&
+        alignment.text.slice(word.end, next?.start ?? word.end),
+    );
+  }
+
+  return parts;
+}
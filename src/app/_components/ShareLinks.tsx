@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+interface ShareLinksProps {
+  documentId: number;
+}
+
+/**
+ * Public links to the latest audiobook of a document.
+ */
+export function ShareLinks({ documentId }: ShareLinksProps) {
+  const [expiresOn, setExpiresOn] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: shares, refetch } = api.share.list.useQuery({ documentId });
+
+  const createShare = api.share.create.useMutation({
+    onSuccess: async () => {
+      setExpiresOn("");
+      setPassword("");
+      await refetch();
+    },
+    onError: (error) => {
+      console.error("Error creating share link:", error);
+    },
+  });
+
+  const revokeShare = api.share.revoke.useMutation({
+    onSuccess: async () => {
+      await refetch();
+    },
+    onError: (error) => {
+      console.error("Error revoking share link:", error);
+    },
+  });
+
+  function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    createShare.mutate({
+      documentId,
+      // The link stays valid until the end of the chosen day
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : undefined,
+      password: password || undefined,
+    });
+  }
+
+  return (
+    <details className="mt-2 text-xs text-purple-200">
+      <summary className="cursor-pointer">Share links</summary>
+      <form
+        onSubmit={handleCreate}
+        className="mt-2 flex flex-wrap items-center gap-2"
+      >
+        <label className="flex items-center gap-1">
+          Expires
+          <input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            className="rounded-md bg-white/10 p-1 text-white"
+          />
+        </label>
+        <input
+          type="password"
+          placeholder="Password (optional)"
+          value={password}
+          minLength={4}
+          onChange={(e) => setPassword(e.target.value)}
+          className="rounded-md bg-white/10 p-1 text-white"
+        />
+        <button
+          type="submit"
+          disabled={createShare.isPending}
+          className="rounded-md bg-white/10 p-1 px-2 hover:bg-white/20"
+        >
+          Create link
+        </button>
+      </form>
+      {createShare.error && (
+        <p className="mt-1 text-red-300">{createShare.error.message}</p>
+      )}
+      {shares?.map((share) => (
+        <div key={share.id} className="mt-2 flex flex-wrap items-center gap-2">
+          <a
+            href={share.path}
+            target="_blank"
+            rel="noreferrer"
+            className={share.isActive ? "underline" : "line-through"}
+          >
+            {share.path}
+          </a>
+          <span>
+            {share.accessCount} {share.accessCount === 1 ? "view" : "views"}
+            {share.hasPassword && " · password"}
+            {share.expiresAt &&
+              ` · expires ${share.expiresAt.toLocaleDateString()}`}
+            {share.revokedAt && " · revoked"}
+          </span>
+          {share.isActive && (
+            <button
+              onClick={() =>
+                revokeShare.mutate({ documentId, shareId: share.id })
+              }
+              disabled={revokeShare.isPending}
+              className="rounded-md bg-red-500/60 p-1 px-2 text-white hover:bg-red-700"
+            >
+              Revoke
+            </button>
+          )}
+        </div>
+      ))}
+    </details>
+  );
+}
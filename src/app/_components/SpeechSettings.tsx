@@ -0,0 +1,69 @@
+import { api } from "~/trpc/react";
+import {
+  defaultSpeechOptions,
+  type SpeechOptions,
+} from "~/server/tts/normalize";
+
+interface SpeechSettingsProps {
+  documentId: number;
+  speechOptions: Partial<SpeechOptions> | null;
+  refetchDocuments: () => Promise<unknown>;
+}
+
+/**
+ * Per-document toggles for how page text is prepared before it is read aloud.
+ */
+export function SpeechSettings({
+  documentId,
+  speechOptions,
+  refetchDocuments,
+}: SpeechSettingsProps) {
+  const options = { ...defaultSpeechOptions, ...speechOptions };
+
+  const updateSpeechOptions = api.document.updateSpeechOptions.useMutation({
+    onSuccess: async () => {
+      await refetchDocuments();
+    },
+    onError: (error) => {
+      console.error("Error updating speech options:", error);
+    },
+  });
+
+  function handleChange(changes: Partial<SpeechOptions>) {
+    updateSpeechOptions.mutate({
+      documentId,
+      speechOptions: changes,
+    });
+  }
+
+  const toggles = [
+    { key: "dropUrls", label: "Skip URLs" },
+    { key: "expandAbbreviations", label: "Expand abbreviations" },
+    { key: "expandNumbers", label: "Spell out numbers" },
+  ] as const;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-purple-200">
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={options.tables === "read"}
+          onChange={(e) =>
+            handleChange({ tables: e.target.checked ? "read" : "skip" })
+          }
+        />
+        Read tables
+      </label>
+      {toggles.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options[key]}
+            onChange={(e) => handleChange({ [key]: e.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
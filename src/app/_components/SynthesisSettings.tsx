@@ -0,0 +1,109 @@
+import { api } from "~/trpc/react";
+import { outputFormats, type SynthesisProfile } from "~/server/tts/profile";
+
+interface SynthesisSettingsProps {
+  documentId: number;
+  synthesisProfile: Partial<SynthesisProfile> | null;
+  refetchDocuments: () => Promise<unknown>;
+}
+
+/**
+ * Per-document model and voice settings used when generating audio.
+ */
+export function SynthesisSettings({
+  documentId,
+  synthesisProfile,
+  refetchDocuments,
+}: SynthesisSettingsProps) {
+  const { data } = api.voice.models.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const updateSynthesisProfile =
+    api.document.updateSynthesisProfile.useMutation({
+      onSuccess: async () => {
+        await refetchDocuments();
+      },
+      onError: (error) => {
+        console.error("Error updating synthesis settings:", error);
+      },
+    });
+
+  if (!data) return null;
+
+  const profile = { ...data.defaultProfile, ...synthesisProfile };
+
+  function handleChange(changes: Partial<SynthesisProfile>) {
+    updateSynthesisProfile.mutate({
+      documentId,
+      synthesisProfile: changes,
+    });
+  }
+
+  const sliders = [
+    { key: "stability", label: "Stability", min: 0, max: 1 },
+    { key: "similarityBoost", label: "Similarity", min: 0, max: 1 },
+    { key: "style", label: "Style", min: 0, max: 1 },
+    { key: "speed", label: "Speed", min: 0.7, max: 1.2 },
+  ] as const;
+
+  return (
+    <details className="mt-2 text-xs text-purple-200">
+      <summary className="cursor-pointer">Voice settings</summary>
+      <div className="mt-2 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1">
+          Model
+          <select
+            className="rounded-md bg-white/10 p-1 text-white"
+            value={profile.model}
+            onChange={(e) => handleChange({ model: e.target.value })}
+          >
+            {data.models.map((model) => (
+              <option key={model} value={model}>
+                {model}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Format
+          <select
+            className="rounded-md bg-white/10 p-1 text-white"
+            value={profile.outputFormat}
+            onChange={(e) =>
+              handleChange({
+                outputFormat: e.target
+                  .value as SynthesisProfile["outputFormat"],
+              })
+            }
+          >
+            {outputFormats.map((format) => (
+              <option key={format} value={format}>
+                {format.replace(/^mp3_(\d+)_(\d+)$/, "MP3 $2 kbps ($1 Hz)")}
+              </option>
+            ))}
+          </select>
+        </label>
+        {sliders.map(({ key, label, min, max }) => (
+          <label key={key} className="flex items-center gap-1">
+            {label}
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={0.05}
+              defaultValue={profile[key]}
+              onMouseUp={(e) =>
+                handleChange({ [key]: Number(e.currentTarget.value) })
+              }
+              onKeyUp={(e) =>
+                handleChange({ [key]: Number(e.currentTarget.value) })
+              }
+            />
+            <span className="w-8">{profile[key].toFixed(2)}</span>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,30 @@
+import { useRef } from "react";
+import { useListeningProgress } from "./useListeningProgress";
+
+interface TrackedAudioProps {
+  documentId: number;
+  pageId: number | null;
+  audioFileId: number;
+  src: string;
+  className?: string;
+}
+
+/**
+ * Audio player that remembers where the user stopped listening.
+ */
+export function TrackedAudio({
+  documentId,
+  pageId,
+  audioFileId,
+  src,
+  className,
+}: TrackedAudioProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  useListeningProgress(audioRef, { documentId, pageId, audioFileId });
+
+  return (
+    <audio ref={audioRef} controls className={className} src={src}>
+      Your browser does not support the audio element.
+    </audio>
+  );
+}
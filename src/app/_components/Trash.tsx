@@ -0,0 +1,73 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+interface TrashProps {
+  refetchDocuments: () => Promise<unknown>;
+}
+
+/**
+ * Component to list deleted documents and restore or permanently delete them.
+ */
+export function Trash({ refetchDocuments }: TrashProps) {
+  const { data: trashed, refetch: refetchTrash } =
+    api.document.getTrash.useQuery();
+
+  const restoreDocument = api.document.restore.useMutation({
+    onSuccess: async () => {
+      // Show the document in the list again.
+      await Promise.all([refetchTrash(), refetchDocuments()]);
+    },
+    onError: (error) => {
+      console.error("Error restoring document:", error);
+    },
+  });
+
+  const purgeDocument = api.document.purge.useMutation({
+    onSuccess: async () => {
+      await refetchTrash();
+    },
+    onError: (error) => {
+      console.error("Error deleting document:", error);
+    },
+  });
+
+  if (!trashed?.length) return null;
+
+  return (
+    <div className="mt-8 rounded-xl border border-white/20 p-4 text-white">
+      <p className="mb-2 font-bold">Trash</p>
+      {trashed.map((document) => (
+        <div
+          key={document.id}
+          className="flex items-center justify-between gap-2 border-t border-white/10 py-2"
+        >
+          <div>
+            <p>{document.name}</p>
+            <p className="text-xs text-purple-200">
+              Deleted forever on {document.purgeAt.toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="rounded-md bg-white/10 p-2 text-sm hover:bg-white/20"
+              onClick={() =>
+                restoreDocument.mutate({ documentId: document.id })
+              }
+              disabled={restoreDocument.isPending}
+            >
+              Restore
+            </button>
+            <button
+              className="rounded-md bg-red-500/80 p-2 text-sm hover:bg-red-700"
+              onClick={() => purgeDocument.mutate({ documentId: document.id })}
+              disabled={purgeDocument.isPending}
+            >
+              Delete forever
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { api } from "~/trpc/react";
+
+/**
+ * Characters synthesized this month against the user's quota.
+ */
+export function UsageSummary() {
+  const { data: usage } = api.usage.summary.useQuery(undefined, {
+    refetchInterval: 30000,
+  });
+
+  if (!usage) return null;
+
+  const percentage = usage.limit
+    ? Math.min(100, ((usage.used + usage.reserved) / usage.limit) * 100)
+    : 100;
+
+  return (
+    <div className="mx-auto mb-8 max-w-md text-sm text-purple-200">
+      <div className="mb-1 flex justify-between">
+        <span>
+          {usage.used.toLocaleString()} of {usage.limit.toLocaleString()}{" "}
+          characters used this month ({usage.plan} plan)
+        </span>
+        {usage.reserved > 0 && (
+          <span>{usage.reserved.toLocaleString()} in progress</span>
+        )}
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full bg-fuchsia-500"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      <p className="mt-1 text-xs">
+        {Math.round(usage.durationMs / 60000)} minutes of audio ·{" "}
+        {usage.cacheHits} pages reused from cache · resets{" "}
+        {usage.periodEnd.toLocaleDateString()}
+      </p>
+    </div>
+  );
+}
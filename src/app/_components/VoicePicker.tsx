@@ -0,0 +1,65 @@
+import { useRef } from "react";
+import { api } from "~/trpc/react";
+
+interface VoicePickerProps {
+  value: string | null;
+  // Label of the option that clears the selection.
+  inheritLabel: string;
+  disabled?: boolean;
+  onChange: (voice: string | null) => void;
+}
+
+/**
+ * Select a voice from the provider catalog, with a button to hear a sample.
+ */
+export function VoicePicker({
+  value,
+  inheritLabel,
+  disabled,
+  onChange,
+}: VoicePickerProps) {
+  const { data } = api.voice.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+  const previewRef = useRef<HTMLAudioElement | null>(null);
+
+  const voices = data?.voices ?? [];
+  const previewVoice =
+    voices.find((voice) => voice.id === value) ??
+    voices.find((voice) => voice.id === data?.defaultVoice);
+
+  function handlePreview() {
+    if (!previewVoice?.previewUrl) return;
+
+    // Stop the previous sample before playing another one
+    previewRef.current?.pause();
+    previewRef.current = new Audio(previewVoice.previewUrl);
+    void previewRef.current.play();
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <select
+        className="rounded-md bg-white/10 p-1 text-white"
+        value={value ?? ""}
+        disabled={!data || disabled === true}
+        onChange={(e) => onChange(e.target.value || null)}
+      >
+        <option value="">{inheritLabel}</option>
+        {voices.map((voice) => (
+          <option key={voice.id} value={voice.id}>
+            {voice.name}
+          </option>
+        ))}
+      </select>
+      <button
+        className="rounded-md bg-white/10 p-1 hover:bg-white/20"
+        onClick={handlePreview}
+        disabled={!previewVoice?.previewUrl}
+        title={previewVoice ? `Preview ${previewVoice.name}` : undefined}
+      >
+        ▶ Preview
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { api } from "~/trpc/react";
+
+// How often the playhead is saved while audio plays.
+const SAVE_INTERVAL_MS = 10000;
+
+interface ListeningTarget {
+  documentId: number;
+  // Null for takes of chapters.
+  pageId: number | null;
+  // Undefined until the take is known.
+  audioFileId: number | undefined;
+}
+
+/**
+ * Save the playhead of an audio element while it plays, and resume from the
+ * saved position when the element shows the take listened to last, on this
+ * or any other device.
+ */
+export function useListeningProgress(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  { documentId, pageId, audioFileId }: ListeningTarget,
+) {
+  const utils = api.useUtils();
+  const { data: progress } = api.progress.get.useQuery({ documentId });
+
+  const saveProgress = api.progress.save.useMutation({
+    onSuccess: async () => {
+      await utils.progress.get.invalidate({ documentId });
+    },
+    onError: (error) => {
+      console.error("Error saving listening progress:", error);
+    },
+  });
+  const { mutate } = saveProgress;
+
+  // Resume once; later refetches must not move a playhead the user set
+  const hasResumed = useRef(false);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (
+      !audio ||
+      audioFileId === undefined ||
+      hasResumed.current ||
+      progress?.audioFileId !== audioFileId
+    ) {
+      return;
+    }
+
+    const resume = () => {
+      hasResumed.current = true;
+      if (audio.paused && audio.currentTime === 0) {
+        audio.currentTime = progress.positionMs / 1000;
+      }
+    };
+
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      resume();
+      return;
+    }
+
+    audio.addEventListener("loadedmetadata", resume, { once: true });
+    return () => audio.removeEventListener("loadedmetadata", resume);
+  }, [audioRef, progress, audioFileId]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || audioFileId === undefined) return;
+
+    let lastSavedMs = -1;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const save = (positionMs: number) => {
+      // Skip saves that would not move the resume point noticeably
+      if (Math.abs(positionMs - lastSavedMs) < 1000) return;
+
+      lastSavedMs = positionMs;
+      mutate({ documentId, pageId, audioFileId, positionMs });
+    };
+    const saveCurrent = () => save(Math.round(audio.currentTime * 1000));
+
+    const handlePlay = () => {
+      clearInterval(interval);
+      interval = setInterval(saveCurrent, SAVE_INTERVAL_MS);
+    };
+    const handlePause = () => {
+      clearInterval(interval);
+      saveCurrent();
+    };
+    // A finished take starts over next time
+    const handleEnded = () => save(0);
+
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handlePause);
+    audio.addEventListener("ended", handleEnded);
+    return () => {
+      clearInterval(interval);
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handlePause);
+      audio.removeEventListener("ended", handleEnded);
+    };
+  }, [audioRef, mutate, documentId, pageId, audioFileId]);
+}
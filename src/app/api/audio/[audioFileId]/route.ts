@@ -0,0 +1,34 @@
+import { type NextRequest } from "next/server";
+
+import { getAudioFileForRequest } from "~/server/audio-access";
+import { createAudioResponse } from "~/server/storage/response";
+
+/**
+ * Play a take. Only the owner of the document (or their podcast feed) may
+ * read it; storage URLs are never handed out directly.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ audioFileId: string }> },
+) {
+  const { audioFileId } = await params;
+
+  try {
+    const audioFile = /^\d+$/.test(audioFileId)
+      ? await getAudioFileForRequest(req, Number(audioFileId))
+      : null;
+    if (!audioFile) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    // Takes saved before storage keys were tracked only have a public URL
+    if (!audioFile.storageKey) {
+      return Response.redirect(audioFile.filePath, 302);
+    }
+
+    return await createAudioResponse(req, audioFile.storageKey);
+  } catch (error) {
+    console.error("Error serving audio file:", error);
+    return new Response("Failed to load audio", { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { type NextRequest } from "next/server";
+
+import { getAudiobookForRequest } from "~/server/audio-access";
+import { createAudioResponse } from "~/server/storage/response";
+
+/**
+ * Play or, with `?download=1`, download an assembled audiobook.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ audiobookId: string }> },
+) {
+  const { audiobookId } = await params;
+
+  try {
+    const audiobook = /^\d+$/.test(audiobookId)
+      ? await getAudiobookForRequest(req, Number(audiobookId))
+      : null;
+    if (!audiobook?.storageKey) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const extension = audiobook.fileName?.split(".").pop() ?? "mp3";
+
+    return await createAudioResponse(req, audiobook.storageKey, {
+      downloadName: req.nextUrl.searchParams.has("download")
+        ? `${audiobook.document.name}.${extension}`
+        : undefined,
+    });
+  } catch (error) {
+    console.error("Error serving audiobook:", error);
+    return new Response("Failed to load audiobook", { status: 500 });
+  }
+}
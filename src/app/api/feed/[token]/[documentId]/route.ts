@@ -0,0 +1,35 @@
+import { type NextRequest } from "next/server";
+
+import { getDocumentFeed, getFeedUser, renderPodcastFeed } from "~/server/feed";
+
+/**
+ * Private podcast feed of one document, with an episode per chapter or page.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string; documentId: string }> },
+) {
+  const { token, documentId } = await params;
+
+  try {
+    const user = await getFeedUser(token);
+    if (!user || !/^\d+$/.test(documentId)) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const feed = await getDocumentFeed(user, Number(documentId));
+    if (!feed) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(renderPodcastFeed(feed, req.nextUrl.origin), {
+      headers: {
+        "Content-Type": "application/rss+xml; charset=utf-8",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error building podcast feed:", error);
+    return new Response("Failed to build feed", { status: 500 });
+  }
+}
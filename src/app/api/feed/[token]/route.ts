@@ -0,0 +1,33 @@
+import { type NextRequest } from "next/server";
+
+import { getFeedUser, getUserFeed, renderPodcastFeed } from "~/server/feed";
+
+/**
+ * Private podcast feed with an episode per audiobook of the user. The feed
+ * token in the URL is the only credential, as podcast apps cannot sign in.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+
+  try {
+    const user = await getFeedUser(token);
+    if (!user) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const feed = await getUserFeed(user);
+
+    return new Response(renderPodcastFeed(feed, req.nextUrl.origin), {
+      headers: {
+        "Content-Type": "application/rss+xml; charset=utf-8",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error building podcast feed:", error);
+    return new Response("Failed to build feed", { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { type NextRequest } from "next/server";
+
+import { createAudioResponse } from "~/server/storage/response";
+import {
+  getActiveShare,
+  getShareCookieName,
+  isShareUnlocked,
+} from "~/server/shares";
+
+/**
+ * Serve the latest audiobook of a shared document. This route is public; the
+ * share token (and the unlock cookie for password-protected links) is the
+ * only credential.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+
+  try {
+    const share = await getActiveShare(token);
+    if (!share?.audiobook?.storageKey) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    if (
+      !isShareUnlocked(share, req.cookies.get(getShareCookieName(token))?.value)
+    ) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    // Revoking the link must stop playback right away, so nothing is cached
+    return await createAudioResponse(req, share.audiobook.storageKey, {
+      cacheControl: "private, no-store",
+    });
+  } catch (error) {
+    console.error("Error serving shared audiobook:", error);
+    return new Response("Failed to load audiobook", { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  getActiveShare,
+  getShareCookieName,
+  getShareUnlockValue,
+  verifySharePassword,
+} from "~/server/shares";
+
+/**
+ * Check the password of a protected share link and remember the visitor with
+ * a cookie scoped to the link.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token } = await params;
+  const share = await getActiveShare(token);
+
+  if (!share?.passwordHash) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const formData = await req.formData();
+  const password = formData.get("password");
+  const sharePath = `/share/${token}`;
+
+  if (
+    typeof password !== "string" ||
+    !(await verifySharePassword(password, share.passwordHash))
+  ) {
+    return NextResponse.redirect(new URL(`${sharePath}?error=1`, req.url), 303);
+  }
+
+  const response = NextResponse.redirect(new URL(sharePath, req.url), 303);
+  response.cookies.set(
+    getShareCookieName(token),
+    getShareUnlockValue({ token, passwordHash: share.passwordHash }),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: req.nextUrl.protocol === "https:",
+      // Covers both the player page and the audio route
+      path: "/",
+      expires: share.expiresAt ?? undefined,
+    },
+  );
+
+  return response;
+}
@@ -0,0 +1,50 @@
+import { type NextRequest } from "next/server";
+
+import { env } from "~/env";
+import { isStorageKeyOwner } from "~/server/audio-access";
+import { auth } from "~/server/auth";
+import { getStorage } from "~/server/storage";
+
+/**
+ * Serve objects written by the local storage backend. Other backends serve
+ * their objects directly, so this route only responds when
+ * `STORAGE_DRIVER=local`. Only objects of takes and audiobooks the signed-in
+ * user owns are served; anything else is reported as not found.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> },
+) {
+  if (env.STORAGE_DRIVER !== "local") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const session = await auth();
+  if (!session?.user) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { key } = await params;
+  const storageKey = key.join("/");
+
+  try {
+    if (!(await isStorageKeyOwner(session.user.id, storageKey))) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const object = await getStorage().get(storageKey);
+    if (!object) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(object.body, {
+      headers: {
+        "Content-Type": object.contentType,
+        "Content-Length": object.body.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error reading stored object:", error);
+    return new Response("Bad request", { status: 400 });
+  }
+}
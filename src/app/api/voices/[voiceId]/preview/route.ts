@@ -0,0 +1,39 @@
+import { type NextRequest } from "next/server";
+
+import { auth } from "~/server/auth";
+import { getVoicePreview, isVoiceAvailable } from "~/server/tts/voices";
+
+/**
+ * Serve a sample of a voice for providers that do not host their own
+ * previews. Samples are synthesized once and then read from storage.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ voiceId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { voiceId } = await params;
+
+  try {
+    if (!(await isVoiceAvailable(voiceId))) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const preview = await getVoicePreview(voiceId);
+
+    return new Response(preview.body, {
+      headers: {
+        "Content-Type": preview.contentType,
+        "Content-Length": preview.body.length.toString(),
+        "Cache-Control": "private, max-age=86400",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating voice preview:", error);
+    return new Response("Failed to generate preview", { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { type Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+
+import {
+  getActiveShare,
+  getShareCookieName,
+  isShareUnlocked,
+  recordShareAccess,
+} from "~/server/shares";
+
+export const metadata: Metadata = {
+  title: "Shared audiobook · Audiopintar",
+  robots: { index: false },
+};
+
+export default async function SharePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const { token } = await params;
+  const { error } = await searchParams;
+
+  const share = await getActiveShare(token);
+  if (!share) {
+    notFound();
+  }
+
+  const cookieStore = await cookies();
+  const unlocked = isShareUnlocked(
+    share,
+    cookieStore.get(getShareCookieName(token))?.value,
+  );
+
+  // Count views of the player, not the password prompt
+  if (unlocked) {
+    await recordShareAccess(share.id);
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gradient-to-b from-[#69026d] to-[#15162c] px-4 text-white">
+      <div className="w-full max-w-xl rounded-xl bg-white/5 p-8">
+        <p className="text-sm text-purple-200">Shared audiobook</p>
+        <h1 className="mb-6 mt-1 text-2xl font-bold">{share.document.name}</h1>
+
+        {!unlocked ? (
+          <form
+            method="post"
+            action={`/api/share/${token}/unlock`}
+            className="flex flex-col gap-2"
+          >
+            <label htmlFor="password" className="text-sm text-purple-200">
+              This audiobook is protected with a password.
+            </label>
+            <input
+              id="password"
+              name="password"
+              type="password"
+              required
+              className="rounded-md bg-white/10 p-2"
+            />
+            {error && <p className="text-sm text-red-300">Wrong password.</p>}
+            <button
+              type="submit"
+              className="rounded-md bg-purple-600 p-2 hover:bg-purple-700"
+            >
+              Listen
+            </button>
+          </form>
+        ) : share.audiobook ? (
+          <audio controls className="w-full" src={`/api/share/${token}/audio`}>
+            Your browser does not support the audio element.
+          </audio>
+        ) : (
+          <p className="text-purple-200">
+            The audiobook is not ready yet. Check back later.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
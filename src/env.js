@@ -15,8 +15,14 @@ export const env = createEnv({
     AUTH_GOOGLE_SECRET: z.string(),
     DATABASE_URL: z.string().url(),
     TURSO_AUTH_TOKEN: z.string(),
-    LLAMA_CLOUD_API_KEY: z.string(),
-    ELEVENLABS_API_KEY: z.string(),
+    LLAMA_CLOUD_API_KEY: z.string().optional(),
+    DOCUMENT_PARSER: z.enum(["llamaparse", "pdfjs"]).default("llamaparse"),
+    DOCUMENT_PARSER_FALLBACK: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((value) => value === "true"),
+    ELEVENLABS_API_KEY: z.string().optional(),
+    TTS_PROVIDER: z.enum(["elevenlabs", "local"]).default("elevenlabs"),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -27,7 +33,17 @@ export const env = createEnv({
     AWS_ENDPOINT_URL_IAM: z.string().url(),
     AWS_REGION: z.string(),
     AWS_S3_BUCKET: z.string(),
+    AWS_S3_FORCE_PATH_STYLE: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((value) => value === "true"),
+    STORAGE_DRIVER: z.enum(["s3", "local"]).default("s3"),
+    STORAGE_LOCAL_DIR: z.string().default("storage"),
+    STORAGE_PUBLIC_URL: z.string().optional(),
     UPLOADTHING_TOKEN: z.string(),
+    TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+    QUOTA_FREE_CHARACTERS: z.coerce.number().int().nonnegative().default(20000),
+    QUOTA_PRO_CHARACTERS: z.coerce.number().int().nonnegative().default(500000),
     TRIGGER_PROJECT_ID: z.string(),
   },
 
@@ -51,7 +67,10 @@ export const env = createEnv({
     DATABASE_URL: process.env.DATABASE_URL,
     TURSO_AUTH_TOKEN: process.env.TURSO_AUTH_TOKEN,
     LLAMA_CLOUD_API_KEY: process.env.LLAMA_CLOUD_API_KEY,
+    DOCUMENT_PARSER: process.env.DOCUMENT_PARSER,
+    DOCUMENT_PARSER_FALLBACK: process.env.DOCUMENT_PARSER_FALLBACK,
     ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY,
+    TTS_PROVIDER: process.env.TTS_PROVIDER,
     NODE_ENV: process.env.NODE_ENV,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
@@ -60,7 +79,14 @@ export const env = createEnv({
     AWS_ENDPOINT_URL_IAM: process.env.AWS_ENDPOINT_URL_IAM,
     AWS_REGION: process.env.AWS_REGION,
     AWS_S3_BUCKET: process.env.AWS_S3_BUCKET,
+    AWS_S3_FORCE_PATH_STYLE: process.env.AWS_S3_FORCE_PATH_STYLE,
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+    STORAGE_PUBLIC_URL: process.env.STORAGE_PUBLIC_URL,
     UPLOADTHING_TOKEN: process.env.UPLOADTHING_TOKEN,
+    TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS,
+    QUOTA_FREE_CHARACTERS: process.env.QUOTA_FREE_CHARACTERS,
+    QUOTA_PRO_CHARACTERS: process.env.QUOTA_PRO_CHARACTERS,
     TRIGGER_PROJECT_ID: process.env.TRIGGER_PROJECT_ID,
   },
   /**
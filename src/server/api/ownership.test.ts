@@ -0,0 +1,311 @@
+import { TRPCError } from "@trpc/server";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", async () => {
+  const { createTestDatabase } = await import("~/test/db");
+  return createTestDatabase();
+});
+
+import { eq } from "drizzle-orm";
+
+import { createCaller } from "~/server/api/root";
+import { db } from "~/server/db";
+import {
+  audioFiles,
+  chapters,
+  documents,
+  generationJobs,
+  pages,
+  shareLinks,
+  uploads,
+  users,
+} from "~/server/db/schema";
+
+function callerFor(userId: string) {
+  return createCaller({
+    db,
+    session: { user: { id: userId }, expires: "" },
+    headers: new Headers(),
+  });
+}
+
+const owner = callerFor("owner");
+const other = callerFor("other");
+
+// Rows of the owner that the other user tries to reach
+const ids = {
+  document: 0,
+  trashedDocument: 0,
+  otherDocument: 0,
+  page: 0,
+  chapter: 0,
+  audioFile: 0,
+  job: 0,
+  share: 0,
+};
+
+beforeAll(async () => {
+  await db.insert(users).values([
+    { id: "owner", email: "owner@example.com" },
+    { id: "other", email: "other@example.com" },
+  ]);
+
+  const [document, trashedDocument, otherDocument] = await db
+    .insert(documents)
+    .values([
+      { name: "Owned", createdById: "owner" },
+      { name: "Trashed", createdById: "owner", deletedAt: new Date() },
+      { name: "Other's own", createdById: "other" },
+    ])
+    .returning();
+  ids.document = document!.id;
+  ids.trashedDocument = trashedDocument!.id;
+  ids.otherDocument = otherDocument!.id;
+
+  const [page] = await db
+    .insert(pages)
+    .values({ documentId: ids.document, pageNumber: 1, content: "Hello." })
+    .returning();
+  ids.page = page!.id;
+
+  const [chapter] = await db
+    .insert(chapters)
+    .values({
+      documentId: ids.document,
+      number: 1,
+      title: "Hello",
+      startPageNumber: 1,
+      startOffset: 0,
+    })
+    .returning();
+  ids.chapter = chapter!.id;
+
+  const [audioFile] = await db
+    .insert(audioFiles)
+    .values({
+      pageId: ids.page,
+      fileName: "take.mp3",
+      filePath: "/api/audio/1",
+      storageKey: "audio/take.mp3",
+    })
+    .returning();
+  ids.audioFile = audioFile!.id;
+
+  const [job] = await db
+    .insert(generationJobs)
+    .values({
+      kind: "page",
+      userId: "owner",
+      documentId: ids.document,
+      pageId: ids.page,
+      voice: "voice",
+    })
+    .returning();
+  ids.job = job!.id;
+
+  const [share] = await db
+    .insert(shareLinks)
+    .values({ documentId: ids.document, token: "token", createdById: "owner" })
+    .returning();
+  ids.share = share!.id;
+});
+
+async function expectRejected(call: () => Promise<unknown>) {
+  const error = await call().then(
+    () => null,
+    (error: unknown) => error,
+  );
+
+  expect(error).toBeInstanceOf(TRPCError);
+  expect(["NOT_FOUND", "FORBIDDEN"]).toContain((error as TRPCError).code);
+}
+
+describe("procedures on another user's document", () => {
+  const documentId = () => ids.document;
+
+  it.each([
+    [
+      "document.delete",
+      () => other.document.delete({ documentId: documentId() }),
+    ],
+    [
+      "document.generateAudioBook",
+      () =>
+        other.document.generateAudioBook({
+          documentId: documentId(),
+          pageIds: [ids.page],
+        }),
+    ],
+    [
+      "document.assembleAudiobook",
+      () => other.document.assembleAudiobook({ documentId: documentId() }),
+    ],
+    [
+      "document.setActiveAudio",
+      () =>
+        other.document.setActiveAudio({
+          documentId: documentId(),
+          pageId: ids.page,
+          audioFileId: ids.audioFile,
+        }),
+    ],
+    [
+      "document.detectChapters",
+      () => other.document.detectChapters({ documentId: documentId() }),
+    ],
+    [
+      "document.generateChapters",
+      () =>
+        other.document.generateChapters({
+          documentId: documentId(),
+          chapterIds: [ids.chapter],
+        }),
+    ],
+    [
+      "document.generateDocument",
+      () => other.document.generateDocument({ documentId: documentId() }),
+    ],
+    [
+      "document.updateVoice",
+      () =>
+        other.document.updateVoice({ documentId: documentId(), voice: null }),
+    ],
+    [
+      "document.updateSpeechOptions",
+      () =>
+        other.document.updateSpeechOptions({
+          documentId: documentId(),
+          speechOptions: { dropUrls: false },
+        }),
+    ],
+    [
+      "page.update",
+      () =>
+        other.page.update({
+          documentId: documentId(),
+          pageId: ids.page,
+          content: "Changed.",
+        }),
+    ],
+    [
+      "page.revisions",
+      () =>
+        other.page.revisions({ documentId: documentId(), pageId: ids.page }),
+    ],
+    [
+      "page.readAlong",
+      () =>
+        other.page.readAlong({ documentId: documentId(), pageId: ids.page }),
+    ],
+    ["share.create", () => other.share.create({ documentId: documentId() })],
+    ["share.list", () => other.share.list({ documentId: documentId() })],
+    [
+      "share.revoke",
+      () =>
+        other.share.revoke({ documentId: documentId(), shareId: ids.share }),
+    ],
+    ["progress.get", () => other.progress.get({ documentId: documentId() })],
+    [
+      "progress.save",
+      () =>
+        other.progress.save({
+          documentId: documentId(),
+          pageId: ids.page,
+          audioFileId: ids.audioFile,
+          positionMs: 0,
+        }),
+    ],
+  ])("rejects %s", async (_, call) => {
+    await expectRejected(call);
+  });
+
+  it("rejects restoring or purging a trashed document", async () => {
+    await expectRejected(() =>
+      other.document.restore({ documentId: ids.trashedDocument }),
+    );
+    await expectRejected(() =>
+      other.document.purge({ documentId: ids.trashedDocument }),
+    );
+  });
+
+  it("hides the document from lists", async () => {
+    const documents = await other.document.getAll();
+    expect(documents.map((document) => document.id)).toEqual([
+      ids.otherDocument,
+    ]);
+    expect(await other.document.getTrash()).toEqual([]);
+  });
+
+  it("still lets the owner in", async () => {
+    const shares = await owner.share.list({ documentId: ids.document });
+    expect(shares.map((share) => share.id)).toEqual([ids.share]);
+  });
+});
+
+describe("rows of another user's document through the caller's own", () => {
+  it("rejects pages, takes, chapters and links of other documents", async () => {
+    const documentId = ids.otherDocument;
+
+    await expectRejected(() =>
+      other.page.update({ documentId, pageId: ids.page, content: "Changed." }),
+    );
+    await expectRejected(() =>
+      other.page.readAlong({ documentId, pageId: ids.page }),
+    );
+    await expectRejected(() =>
+      other.document.setActiveChapterAudio({
+        documentId,
+        chapterId: ids.chapter,
+        audioFileId: ids.audioFile,
+      }),
+    );
+    await expectRejected(() =>
+      other.share.revoke({ documentId, shareId: ids.share }),
+    );
+    await expectRejected(() =>
+      other.progress.save({
+        documentId,
+        pageId: null,
+        audioFileId: ids.audioFile,
+        positionMs: 0,
+      }),
+    );
+  });
+});
+
+describe("jobs of another user", () => {
+  it("rejects reading and canceling them", async () => {
+    await expectRejected(() => other.job.get({ jobId: ids.job }));
+    await expectRejected(() => other.job.cancel({ jobId: ids.job }));
+  });
+
+  it("leaves them out of lists", async () => {
+    expect(await other.job.list({ documentId: ids.document })).toEqual([]);
+  });
+});
+
+describe("uploads of another user", () => {
+  it("rejects creating a document from them", async () => {
+    await db.insert(uploads).values({
+      key: "owner-upload",
+      userId: "owner",
+      url: "https://example.com/owner-upload.txt",
+    });
+
+    await expectRejected(() =>
+      other.document.create({ name: "notes.txt", fileKey: "owner-upload" }),
+    );
+    expect(
+      await db.query.documents.findFirst({
+        where: eq(documents.sourceFileKey, "owner-upload"),
+      }),
+    ).toBeUndefined();
+  });
+
+  it("rejects keys that were never uploaded", async () => {
+    await expectRejected(() =>
+      other.document.create({ name: "notes.txt", fileKey: "unknown" }),
+    );
+  });
+});
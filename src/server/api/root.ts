@@ -1,5 +1,12 @@
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 import { documentRouter } from "./routers/document";
+import { feedRouter } from "./routers/feed";
+import { jobRouter } from "./routers/job";
+import { pageRouter } from "./routers/page";
+import { progressRouter } from "./routers/progress";
+import { shareRouter } from "./routers/share";
+import { usageRouter } from "./routers/usage";
+import { voiceRouter } from "./routers/voice";
 
 /**
  * This is the primary router for your server.
@@ -8,6 +15,13 @@ import { documentRouter } from "./routers/document";
  */
 export const appRouter = createTRPCRouter({
   document: documentRouter,
+  feed: feedRouter,
+  job: jobRouter,
+  page: pageRouter,
+  progress: progressRouter,
+  share: shareRouter,
+  usage: usageRouter,
+  voice: voiceRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,133 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", async () => {
+  const { createTestDatabase } = await import("~/test/db");
+  return createTestDatabase();
+});
+vi.mock("~/trigger/generate", () => ({
+  generateAudioTask: { trigger: async () => ({ id: "run" }) },
+}));
+vi.mock("~/trigger/generate-document", () => ({
+  generateDocumentTask: { trigger: async () => ({ id: "run" }) },
+}));
+
+import { eq } from "drizzle-orm";
+
+import { createCaller } from "~/server/api/root";
+import { db } from "~/server/db";
+import {
+  chapters,
+  documents,
+  generationJobs,
+  pages,
+  users,
+} from "~/server/db/schema";
+
+const caller = createCaller({
+  db,
+  session: { user: { id: "user" }, expires: "" },
+  headers: new Headers(),
+});
+
+let documentId = 0;
+let chapterId = 0;
+
+beforeAll(async () => {
+  await db.insert(users).values({
+    id: "user",
+    email: "user@example.com",
+    monthlyCharacterLimit: 1000,
+  });
+  const [document] = await db
+    .insert(documents)
+    .values({ name: "Document", createdById: "user" })
+    .returning();
+  documentId = document!.id;
+
+  await db.insert(pages).values({
+    documentId,
+    pageNumber: 1,
+    content: "# Rivers\n\nRivers carve valleys slowly.",
+  });
+  const [chapter] = await db
+    .insert(chapters)
+    .values({
+      documentId,
+      number: 1,
+      title: "Rivers",
+      startPageNumber: 1,
+      startOffset: 0,
+    })
+    .returning();
+  chapterId = chapter!.id;
+});
+
+async function setLimit(monthlyCharacterLimit: number) {
+  await db
+    .update(users)
+    .set({ monthlyCharacterLimit })
+    .where(eq(users.id, "user"));
+}
+
+async function finishJobs() {
+  await db
+    .update(generationJobs)
+    .set({ status: "canceled" })
+    .where(eq(generationJobs.userId, "user"));
+}
+
+describe("document settings", () => {
+  it("merges partial speech options", async () => {
+    await caller.document.updateSpeechOptions({
+      documentId,
+      speechOptions: { dropUrls: false },
+    });
+    const document = await caller.document.updateSpeechOptions({
+      documentId,
+      speechOptions: { tables: "skip" },
+    });
+
+    expect(document.speechOptions).toEqual({
+      dropUrls: false,
+      tables: "skip",
+    });
+  });
+
+  it("merges partial synthesis profiles", async () => {
+    await caller.document.updateSynthesisProfile({
+      documentId,
+      synthesisProfile: { stability: 0.2 },
+    });
+    const document = await caller.document.updateSynthesisProfile({
+      documentId,
+      synthesisProfile: { speed: 1.1 },
+    });
+
+    expect(document?.synthesisProfile).toEqual({ stability: 0.2, speed: 1.1 });
+  });
+});
+
+describe("quota reservation", () => {
+  it("reserves the characters of queued chapter jobs", async () => {
+    await setLimit(1000);
+    await caller.document.generateChapters({
+      documentId,
+      chapterIds: [chapterId],
+    });
+
+    const { reserved } = await caller.usage.summary();
+    expect(reserved).toBeGreaterThan(0);
+
+    // The queued job leaves no room for a second one
+    await setLimit(Math.floor(reserved * 1.5));
+    await expect(
+      caller.document.generateChapters({ documentId, chapterIds: [chapterId] }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      caller.document.generateDocument({ documentId, by: "chapter" }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+    await finishJobs();
+  });
+});
@@ -1,54 +1,92 @@
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  createTRPCRouter,
+  documentOwnerProcedure,
+  protectedProcedure,
+  trashedDocumentOwnerProcedure,
+} from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
 
 import { z } from "zod";
-import { env } from "~/env";
-import { LlamaParseReader } from "@llamaindex/cloud/reader";
-import { eq, inArray } from "drizzle-orm";
-
-import { ElevenLabsClient } from "elevenlabs";
-import { S3Client } from "@aws-sdk/client-s3";
-import { Upload } from "@aws-sdk/lib-storage";
+import { and, eq, inArray, isNotNull, isNull } from "drizzle-orm";
 
 import { generateAudioTask } from "~/trigger/generate";
-import { runs } from "@trigger.dev/sdk/v3";
-
-import { documents, pages, audioFiles } from "~/server/db/schema";
-
-const elevenlabs = new ElevenLabsClient({
-  apiKey: env.ELEVENLABS_API_KEY,
-});
-
-const s3Client = new S3Client({
-  region: "auto",
-  endpoint: "https://fly.storage.tigris.dev",
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
-  },
-});
+import { assembleAudiobookTask } from "~/trigger/assemble";
+import { generateDocumentTask } from "~/trigger/generate-document";
+
+import { type db, type Transaction } from "~/server/db";
+import {
+  documents,
+  pages,
+  chapters,
+  audioFiles,
+  audiobooks,
+  generationJobs,
+  uploads,
+} from "~/server/db/schema";
+import { getTtsProvider } from "~/server/tts";
+import {
+  normalizeForSpeech,
+  speechOptionsSchema,
+} from "~/server/tts/normalize";
+import {
+  resolveSynthesisProfile,
+  synthesisProfileSchema,
+} from "~/server/tts/profile";
+import { isVoiceAvailable, resolveVoice } from "~/server/tts/voices";
+import { isAudioStale } from "~/server/tts/hash";
+import { getDocumentFormat, parseDocument } from "~/server/parsers";
+import { extractArticle } from "~/server/parsers/article";
+import { fetchHtml } from "~/server/parsers/fetch";
+import { paginate } from "~/server/parsers/paginate";
+import { getAudiobookUrl, getAudioFileUrl } from "~/server/audio-access";
+import { markJobFailed, markJobsCanceled } from "~/server/jobs";
+import {
+  createDocument,
+  getTrashCutoff,
+  purgeDocument,
+} from "~/server/documents";
+import { getUsage } from "~/server/usage";
+import {
+  deleteChapters,
+  getChapters,
+  syncChapters,
+  withChapterContent,
+} from "~/server/chapters";
+
+async function assertVoiceAvailable(voice: string | null) {
+  if (voice !== null && !(await isVoiceAvailable(voice))) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown voice" });
+  }
+}
 
-async function getPdfContent(
-  buffer: Buffer,
-): Promise<{ pages: { number: number; content: string }[] }> {
-  try {
-    const reader = new LlamaParseReader({
-      resultType: "markdown",
-      apiKey: env.LLAMA_CLOUD_API_KEY,
-    });
-    const docs = await reader.loadDataAsContent(buffer);
+/**
+ * Create generation jobs for `contents` if they fit in the user's quota. Queued
+ * jobs reserve their characters, so the check and the insert run in one write
+ * transaction and parallel requests cannot both pass the check.
+ */
+async function createJobsWithinQuota<T>(
+  database: typeof db,
+  userId: string,
+  contents: string[],
+  createJobs: (tx: Transaction) => Promise<T>,
+) {
+  const characters = contents.reduce(
+    (total, content) => total + content.length,
+    0,
+  );
+
+  return database.transaction(async (tx) => {
+    const usage = await getUsage(userId, tx);
+
+    if (characters > usage.remaining) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Monthly character quota exceeded: ${characters} characters requested, ${usage.remaining} of ${usage.limit} remaining`,
+      });
+    }
 
-    return {
-      pages: docs.map((doc, index) => ({
-        number: index + 1,
-        content: doc.getText(),
-      })),
-    };
-  } catch (error) {
-    console.error("Error processing PDF:", error);
-    throw new Error(
-      "Failed to process PDF document: " + (error as Error).message,
-    );
-  }
+    return createJobs(tx);
+  });
 }
 
 export const documentRouter = createTRPCRouter({
@@ -56,72 +94,57 @@ export const documentRouter = createTRPCRouter({
     .input(
       z.object({
         name: z.string().min(1),
-        fileUrl: z.string().url(),
+        fileKey: z.string().min(1),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      if (!env.ELEVENLABS_API_KEY) {
-        throw new Error("ElevenLabs API key is not configured");
+      const format = getDocumentFormat(input.name);
+      if (!format) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Unsupported file type",
+        });
+      }
+
+      // Only the caller's own uploads, each backing at most one document
+      const upload = await ctx.db.query.uploads.findFirst({
+        where: and(
+          eq(uploads.key, input.fileKey),
+          eq(uploads.userId, ctx.session.user.id),
+        ),
+      });
+      const existing =
+        upload &&
+        (await ctx.db.query.documents.findFirst({
+          where: eq(documents.sourceFileKey, upload.key),
+          columns: { id: true },
+        }));
+      if (!upload || existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
       }
 
       try {
-        // Fetch PDF from URL
-        const response = await fetch(input.fileUrl);
+        // Fetch the uploaded file from UploadThing
+        const response = await fetch(upload.url);
         if (!response.ok) {
-          throw new Error("Failed to fetch PDF file");
+          throw new Error("Failed to fetch uploaded file");
         }
         const fileBuffer = await response.arrayBuffer();
 
-        // Extract text from PDF
-        const { pages: pdfPages } = await getPdfContent(
+        // Extract pages, or chapters and sections, from the file
+        const { pages: parsedPages } = await parseDocument(
           Buffer.from(fileBuffer),
+          format,
         );
 
-        // Save document
-        const [doc] = await ctx.db
-          .insert(documents)
-          .values({
+        return await createDocument(
+          {
             name: input.name,
+            sourceFileKey: upload.key,
             createdById: ctx.session.user.id,
-          })
-          .returning();
-
-        if (!doc) {
-          throw new Error("Failed to create document");
-        }
-
-        // Process each page
-        const documentPages = await Promise.all(
-          pdfPages.map(async (page, index) => {
-            try {
-              // Save page
-              const [savedPage] = await ctx.db
-                .insert(pages)
-                .values({
-                  documentId: doc.id,
-                  pageNumber: page.number,
-                  content: page.content,
-                })
-                .returning();
-
-              if (!savedPage) {
-                throw new Error("Failed to save page");
-              }
-
-              return savedPage;
-            } catch (error) {
-              console.error(`Error processing page ${index + 1}:`, error);
-              throw new Error(
-                `Failed to process page ${index + 1}: ${(error as Error).message}`,
-              );
-            }
-          }),
+          },
+          parsedPages,
         );
-
-        return {
-          documentId: doc.id,
-          pages: documentPages,
-        };
       } catch (error) {
         console.error("Error creating document:", error);
         throw new Error(
@@ -129,121 +152,396 @@ export const documentRouter = createTRPCRouter({
         );
       }
     }),
-  delete: protectedProcedure
-    .input(z.object({ id: z.number() }))
-    .mutation(async ({ input, ctx }) => {
+  createFromUrl: protectedProcedure
+    .input(
+      z.object({
+        url: z.string().url(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
       try {
-        // Will be implemented later. For now, assume it's a simple check.
-        // Check if the user has permission to delete documents.
-        // const hasPermission = await checkUserPermission();
-        const hasPermission = true;
-
-        console.log("Delete document with id:", input.id);
+        // Fetch the page and keep only the article
+        const { html, url } = await fetchHtml(input.url);
+        const article = extractArticle(html);
 
-        if (!hasPermission) {
-          throw new Error(
-            "You do not have permission to delete this document.",
-          );
+        const parsedPages = paginate(article.content);
+        if (parsedPages.length === 0) {
+          throw new Error("No article text found on the page");
         }
 
-        // Find the document to delete
-        const documentResult = await ctx.db.query.documents.findFirst({
-          where: eq(documents.id, input.id),
-          with: {
-            pages: {
-              with: {
-                audioFiles: true,
-              },
-            },
+        return await createDocument(
+          {
+            name: article.title,
+            sourceUrl: url,
+            createdById: ctx.session.user.id,
           },
+          parsedPages,
+        );
+      } catch (error) {
+        console.error("Error importing article:", error);
+        throw new Error(
+          "Failed to import article: " + (error as Error).message,
+        );
+      }
+    }),
+  delete: documentOwnerProcedure.mutation(async ({ ctx }) => {
+    // Move the document to the trash; it is purged after the retention window
+    const [document] = await ctx.db
+      .update(documents)
+      .set({ deletedAt: new Date() })
+      .where(eq(documents.id, ctx.document.id))
+      .returning();
+
+    return document;
+  }),
+  restore: trashedDocumentOwnerProcedure.mutation(async ({ ctx }) => {
+    const [document] = await ctx.db
+      .update(documents)
+      .set({ deletedAt: null })
+      .where(eq(documents.id, ctx.document.id))
+      .returning();
+
+    return document;
+  }),
+  purge: trashedDocumentOwnerProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await purgeDocument(ctx.document.id);
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      throw new Error("Failed to delete document: " + (error as Error).message);
+    }
+  }),
+  getTrash: protectedProcedure.query(async ({ ctx }) => {
+    const trashed = await ctx.db.query.documents.findMany({
+      where: and(
+        eq(documents.createdById, ctx.session.user.id),
+        isNotNull(documents.deletedAt),
+      ),
+      orderBy: (documents, { desc }) => [desc(documents.deletedAt)],
+    });
+
+    const retentionMs = Date.now() - getTrashCutoff().getTime();
+    return trashed.map((document) => ({
+      ...document,
+      purgeAt: new Date(document.deletedAt!.getTime() + retentionMs),
+    }));
+  }),
+  generateAudioBook: documentOwnerProcedure
+    .input(
+      z.object({
+        pageIds: z.array(z.number()),
+        // Voice for this generation only; defaults to the page or document voice
+        voice: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Fail early if the configured TTS provider is missing credentials
+      const provider = getTtsProvider();
+      await assertVoiceAvailable(input.voice ?? null);
+
+      const { document } = ctx;
+      const profile = resolveSynthesisProfile(
+        document.synthesisProfile,
+        provider,
+      );
+
+      // Get the specified pages, which must all belong to the document
+      const pagesToRegenerate = await ctx.db.query.pages.findMany({
+        where: and(
+          inArray(pages.id, input.pageIds),
+          eq(pages.documentId, document.id),
+        ),
+      });
+
+      if (pagesToRegenerate.length !== new Set(input.pageIds).size) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Some pages do not belong to this document",
         });
+      }
+
+      const contents = new Map(
+        pagesToRegenerate.map((page) => [
+          page.id,
+          normalizeForSpeech(page.content, document.speechOptions ?? {}),
+        ]),
+      );
+
+      if (pagesToRegenerate.length === 0) return [];
+
+      const jobs = await createJobsWithinQuota(
+        ctx.db,
+        ctx.session.user.id,
+        [...contents.values()],
+        (tx) =>
+          tx
+            .insert(generationJobs)
+            .values(
+              pagesToRegenerate.map((page) => ({
+                kind: "page" as const,
+                userId: ctx.session.user.id,
+                documentId: document.id,
+                pageId: page.id,
+                voice: input.voice ?? resolveVoice(page, document),
+                characters: contents.get(page.id)!.length,
+              })),
+            )
+            .returning(),
+      );
 
-        // console.log("Document result:", JSON.stringify(documentResult, null, 2));
+      // Process each page; jobs come back in insertion order
+      const results = await Promise.all(
+        pagesToRegenerate.map(async (page, index) => {
+          const job = jobs[index]!;
+          const { voice } = job;
+          const content = contents.get(page.id)!;
 
-        const associatedPagesId =
-          documentResult?.pages.map((page) => page.id) ?? [];
-        // const associatedAudioFilesId = documentResult?.pages.flatMap(page => page.audioFiles).map(audioFile => audioFile.id) ?? [];
+          try {
+            const handle = await generateAudioTask.trigger({
+              jobId: job.id,
+              documentId: input.documentId,
+              pageId: page.id,
+              voice,
+              content,
+              settings: document.speechOptions ?? {},
+              profile,
+            });
 
-        // Delete audio files associated with the document.
-        if (associatedPagesId.length > 0) {
-          const deletedAudioFiles = await ctx.db
-            .delete(audioFiles)
-            .where(inArray(audioFiles.pageId, associatedPagesId));
+            await ctx.db
+              .update(generationJobs)
+              .set({ runId: handle.id })
+              .where(eq(generationJobs.id, job.id));
 
-          if (!deletedAudioFiles) {
-            throw new Error(
-              "Failed to delete audio files associated with the document.",
+            return {
+              pageId: page.id,
+              success: true,
+              jobId: job.id,
+              runId: handle.id,
+            };
+          } catch (error) {
+            console.error(
+              `Error regenerating audio for page ${page.id}:`,
+              error,
             );
+            await markJobFailed(job.id, error);
+            return {
+              pageId: page.id,
+              success: false,
+              jobId: job.id,
+              error: (error as Error).message,
+            };
           }
-        }
+        }),
+      );
 
-        // Delete pages associated with the document.
-        const deletedPages = await ctx.db
-          .delete(pages)
-          .where(eq(pages.documentId, input.id));
+      return results;
+    }),
+  assembleAudiobook: documentOwnerProcedure.mutation(async ({ ctx }) => {
+    const { document } = ctx;
 
-        if (!deletedPages) {
-          throw new Error(
-            "Failed to delete pages associated with the document.",
-          );
-        }
+    const [audiobook] = await ctx.db
+      .insert(audiobooks)
+      .values({ documentId: document.id })
+      .returning();
 
-        // Delete the document itself.
-        const deletedDocument = await ctx.db
-          .delete(documents)
-          .where(eq(documents.id, input.id));
+    if (!audiobook) {
+      throw new Error("Failed to create audiobook");
+    }
 
-        if (!deletedDocument) {
-          throw new Error("Failed to delete document.");
-        }
-        return deletedDocument;
-      } catch (error) {
-        console.error("Error deleting document:", error);
-        throw new Error(
-          "Failed to delete document: " + (error as Error).message,
-        );
+    // Concatenate the page audio on the server
+    const handle = await assembleAudiobookTask.trigger({
+      audiobookId: audiobook.id,
+    });
+
+    await ctx.db
+      .update(audiobooks)
+      .set({ runId: handle.id })
+      .where(eq(audiobooks.id, audiobook.id));
+
+    return { audiobookId: audiobook.id, runId: handle.id };
+  }),
+  setActiveAudio: documentOwnerProcedure
+    .input(
+      z.object({
+        pageId: z.number(),
+        audioFileId: z.number(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // The take must belong to a page of this document
+      const audioFile = await ctx.db.query.audioFiles.findFirst({
+        where: and(
+          eq(audioFiles.id, input.audioFileId),
+          eq(audioFiles.pageId, input.pageId),
+        ),
+        with: { page: true },
+      });
+
+      if (!audioFile || audioFile.page?.documentId !== ctx.document.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Take not found" });
       }
+
+      const [page] = await ctx.db
+        .update(pages)
+        .set({ activeAudioFileId: audioFile.id })
+        .where(eq(pages.id, input.pageId))
+        .returning();
+
+      return page;
     }),
-  generateAudioBook: protectedProcedure
+  setActiveChapterAudio: documentOwnerProcedure
     .input(
       z.object({
-        documentId: z.number(),
-        pageIds: z.array(z.number()),
-        voice: z.string(),
+        chapterId: z.number(),
+        audioFileId: z.number(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      if (!env.ELEVENLABS_API_KEY) {
-        throw new Error("ElevenLabs API key is not configured");
+      // The take must belong to a chapter of this document
+      const audioFile = await ctx.db.query.audioFiles.findFirst({
+        where: and(
+          eq(audioFiles.id, input.audioFileId),
+          eq(audioFiles.chapterId, input.chapterId),
+        ),
+        with: { chapter: true },
+      });
+
+      if (!audioFile || audioFile.chapter?.documentId !== ctx.document.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Take not found" });
       }
 
-      // Get the specified pages
-      const pagesToRegenerate = await ctx.db.query.pages.findMany({
-        where: inArray(pages.id, input.pageIds),
+      const [chapter] = await ctx.db
+        .update(chapters)
+        .set({ activeAudioFileId: audioFile.id })
+        .where(eq(chapters.id, input.chapterId))
+        .returning();
+
+      return chapter;
+    }),
+  detectChapters: documentOwnerProcedure.mutation(async ({ ctx }) => {
+    const total = await syncChapters(ctx.document.id);
+
+    return { total };
+  }),
+  deleteChapter: documentOwnerProcedure
+    .input(z.object({ chapterId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      // Chapters still in the text would be detected again on the next edit
+      const chapter = await ctx.db.query.chapters.findFirst({
+        where: and(
+          eq(chapters.id, input.chapterId),
+          eq(chapters.documentId, ctx.document.id),
+          isNotNull(chapters.detachedAt),
+        ),
+        with: { audioFiles: { columns: { id: true, storageKey: true } } },
       });
 
-      // Process each page
+      if (!chapter) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Detached chapter not found",
+        });
+      }
+
+      await deleteChapters([chapter]);
+
+      return { chapterId: chapter.id };
+    }),
+  generateChapters: documentOwnerProcedure
+    .input(
+      z.object({
+        chapterIds: z.array(z.number()).min(1),
+        voice: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Fail early if the configured TTS provider is missing credentials
+      const provider = getTtsProvider();
+      await assertVoiceAvailable(input.voice ?? null);
+
+      const { document } = ctx;
+      const profile = resolveSynthesisProfile(
+        document.synthesisProfile,
+        provider,
+      );
+
+      // Chapter text is rebuilt from the pages, so load all of them
+      const chaptersToGenerate = (await getChapters(document.id)).filter(
+        (chapter) => input.chapterIds.includes(chapter.id),
+      );
+
+      if (chaptersToGenerate.length !== new Set(input.chapterIds).size) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Some chapters do not belong to this document",
+        });
+      }
+
+      const contents = new Map(
+        chaptersToGenerate.map((chapter) => [
+          chapter.id,
+          normalizeForSpeech(chapter.content, document.speechOptions ?? {}),
+        ]),
+      );
+      const jobs = await createJobsWithinQuota(
+        ctx.db,
+        ctx.session.user.id,
+        [...contents.values()],
+        (tx) =>
+          tx
+            .insert(generationJobs)
+            .values(
+              chaptersToGenerate.map((chapter) => ({
+                kind: "chapter" as const,
+                userId: ctx.session.user.id,
+                documentId: document.id,
+                chapterId: chapter.id,
+                voice: input.voice ?? resolveVoice({ voice: null }, document),
+                characters: contents.get(chapter.id)!.length,
+              })),
+            )
+            .returning(),
+      );
+
+      // Process each chapter; jobs come back in insertion order
       const results = await Promise.all(
-        pagesToRegenerate.map(async (page) => {
+        chaptersToGenerate.map(async (chapter, index) => {
+          const job = jobs[index]!;
+          const { voice } = job;
+          const content = contents.get(chapter.id)!;
+
           try {
             const handle = await generateAudioTask.trigger({
-              documentId: input.documentId,
-              pageId: page.id,
-              voice: input.voice,
-              content: page.content,
+              jobId: job.id,
+              documentId: document.id,
+              chapterId: chapter.id,
+              voice,
+              content,
+              settings: document.speechOptions ?? {},
+              profile,
             });
-            const runId = handle.id;
-            const run = await runs.retrieve<typeof generateAudioTask>(runId);
 
-            return { pageId: page.id, success: true, runId };
+            await ctx.db
+              .update(generationJobs)
+              .set({ runId: handle.id })
+              .where(eq(generationJobs.id, job.id));
+
+            return {
+              chapterId: chapter.id,
+              success: true,
+              jobId: job.id,
+              runId: handle.id,
+            };
           } catch (error) {
             console.error(
-              `Error regenerating audio for page ${page.id}:`,
+              `Error generating audio for chapter ${chapter.id}:`,
               error,
             );
+            await markJobFailed(job.id, error);
             return {
-              pageId: page.id,
+              chapterId: chapter.id,
               success: false,
+              jobId: job.id,
               error: (error as Error).message,
             };
           }
@@ -252,29 +550,304 @@ export const documentRouter = createTRPCRouter({
 
       return results;
     }),
-  getJobStatus: protectedProcedure
+  updateVoice: documentOwnerProcedure
+    .input(
+      z.object({
+        // Null resets the document to the provider default
+        voice: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertVoiceAvailable(input.voice);
+
+      const [document] = await ctx.db
+        .update(documents)
+        .set({ voice: input.voice })
+        .where(eq(documents.id, ctx.document.id))
+        .returning();
+
+      return document;
+    }),
+  updatePageVoice: documentOwnerProcedure
+    .input(
+      z.object({
+        pageId: z.number(),
+        // Null makes the page use the document voice again
+        voice: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertVoiceAvailable(input.voice);
+
+      const [page] = await ctx.db
+        .update(pages)
+        .set({ voice: input.voice })
+        .where(
+          and(
+            eq(pages.id, input.pageId),
+            eq(pages.documentId, ctx.document.id),
+          ),
+        )
+        .returning();
+
+      if (!page) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Page not found" });
+      }
+
+      return page;
+    }),
+  updateSynthesisProfile: documentOwnerProcedure
+    .input(
+      z.object({
+        synthesisProfile: synthesisProfileSchema.partial(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { model } = input.synthesisProfile;
+      if (model && !getTtsProvider().models.includes(model)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown model" });
+      }
+
+      // Settings that are not part of the input keep their value
+      const [document] = await ctx.db
+        .update(documents)
+        .set({
+          synthesisProfile: {
+            ...ctx.document.synthesisProfile,
+            ...input.synthesisProfile,
+          },
+        })
+        .where(eq(documents.id, ctx.document.id))
+        .returning();
+
+      return document;
+    }),
+  updateSpeechOptions: documentOwnerProcedure
     .input(
       z.object({
-        runId: z.string(),
+        speechOptions: speechOptionsSchema.partial(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const run = await runs.retrieve<typeof generateAudioTask>(input.runId);
-      return run;
+      const [document] = await ctx.db
+        .update(documents)
+        .set({
+          speechOptions: {
+            ...ctx.document.speechOptions,
+            ...input.speechOptions,
+          },
+        })
+        .where(eq(documents.id, ctx.document.id))
+        .returning();
+
+      if (!document) {
+        throw new Error("Document not found");
+      }
+
+      return document;
+    }),
+  generateDocument: documentOwnerProcedure
+    .input(
+      z.object({
+        // Voice for every part; defaults to the page or document voice
+        voice: z.string().optional(),
+        // Generate a take per page or per chapter
+        by: z.enum(["page", "chapter"]).default("page"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Fail early if the configured TTS provider is missing credentials
+      const provider = getTtsProvider();
+      await assertVoiceAvailable(input.voice ?? null);
+
+      const document = await ctx.db.query.documents.findFirst({
+        where: eq(documents.id, ctx.document.id),
+        with: {
+          pages: {
+            orderBy: (pages, { asc }) => [asc(pages.pageNumber)],
+          },
+        },
+      });
+
+      if (!document) {
+        throw new Error("Document not found");
+      }
+
+      if (document.pages.length === 0) {
+        throw new Error("Document has no pages");
+      }
+
+      const speechOptions = document.speechOptions ?? {};
+      const parts =
+        input.by === "chapter"
+          ? (await getChapters(document.id)).map((chapter) => ({
+              kind: "chapter" as const,
+              chapterId: chapter.id,
+              voice: input.voice ?? resolveVoice({ voice: null }, document),
+              content: normalizeForSpeech(chapter.content, speechOptions),
+            }))
+          : document.pages.map((page) => ({
+              kind: "page" as const,
+              pageId: page.id,
+              voice: input.voice ?? resolveVoice(page, document),
+              content: normalizeForSpeech(page.content, speechOptions),
+            }));
+
+      if (parts.length === 0) {
+        throw new Error("Document has no chapters");
+      }
+
+      const { job, partJobs } = await createJobsWithinQuota(
+        ctx.db,
+        ctx.session.user.id,
+        parts.map((part) => part.content),
+        async (tx) => {
+          // One parent job tracks a child job per part
+          const [job] = await tx
+            .insert(generationJobs)
+            .values({
+              kind: "document",
+              userId: ctx.session.user.id,
+              documentId: document.id,
+              voice: input.voice ?? resolveVoice({ voice: null }, document),
+            })
+            .returning();
+
+          if (!job) {
+            throw new Error("Failed to create generation job");
+          }
+
+          // Rows come back in insertion order, matching the parts
+          const partJobs = await tx
+            .insert(generationJobs)
+            .values(
+              parts.map(({ content, ...part }) => ({
+                ...part,
+                parentJobId: job.id,
+                userId: ctx.session.user.id,
+                documentId: document.id,
+                characters: content.length,
+              })),
+            )
+            .returning();
+
+          return { job, partJobs };
+        },
+      );
+
+      try {
+        const handle = await generateDocumentTask.trigger({
+          jobId: job.id,
+          documentId: document.id,
+          settings: speechOptions,
+          profile: resolveSynthesisProfile(document.synthesisProfile, provider),
+        });
+
+        await ctx.db
+          .update(generationJobs)
+          .set({ runId: handle.id })
+          .where(eq(generationJobs.id, job.id));
+      } catch (error) {
+        console.error("Error triggering document job:", error);
+        await markJobFailed(job.id, error);
+        await markJobsCanceled(partJobs.map((partJob) => partJob.id));
+        throw new Error(
+          "Failed to start document generation: " + (error as Error).message,
+        );
+      }
+
+      return { jobId: job.id, total: parts.length };
     }),
   getAll: protectedProcedure.query(async ({ ctx }) => {
     const documentsResult = await ctx.db.query.documents.findMany({
-      where: eq(documents.createdById, ctx.session.user.id),
+      where: and(
+        eq(documents.createdById, ctx.session.user.id),
+        isNull(documents.deletedAt),
+      ),
       with: {
         pages: {
           with: {
-            audioFiles: true,
+            audioFiles: {
+              // Word timings are loaded by the reader when it opens
+              columns: { alignment: false },
+              orderBy: (audioFiles, { desc }) => [desc(audioFiles.createdAt)],
+            },
           },
         },
+        chapters: {
+          orderBy: (chapters, { asc }) => [asc(chapters.number)],
+          with: {
+            audioFiles: {
+              // Word timings are loaded by the reader when it opens
+              columns: { alignment: false },
+              orderBy: (audioFiles, { desc }) => [desc(audioFiles.createdAt)],
+            },
+          },
+        },
+        audiobooks: {
+          orderBy: (audiobooks, { desc }) => [desc(audiobooks.createdAt)],
+        },
       },
       orderBy: (documents, { desc }) => [desc(documents.createdAt)],
     });
 
-    return documentsResult;
+    // Audio is played through the app, which checks ownership
+    return documentsResult.map((document) => ({
+      ...document,
+      audiobooks: document.audiobooks.map((audiobook) => ({
+        ...audiobook,
+        url: audiobook.storageKey ? getAudiobookUrl(audiobook.id) : null,
+      })),
+      pages: document.pages.map((page) => {
+        const activeAudioFile =
+          page.audioFiles.find(
+            (audioFile) => audioFile.id === page.activeAudioFileId,
+          ) ?? page.audioFiles[0];
+
+        return {
+          ...page,
+          // The audio no longer matches the page text
+          isAudioStale:
+            !!activeAudioFile &&
+            isAudioStale(activeAudioFile, page.content, document.speechOptions),
+          audioFiles: page.audioFiles.map((audioFile) => ({
+            ...audioFile,
+            filePath: getAudioFileUrl(audioFile.id),
+          })),
+        };
+      }),
+      chapters: [
+        ...withChapterContent(
+          document.chapters.filter((chapter) => !chapter.detachedAt),
+          document.pages,
+        ).map(({ content, ...chapter }) => {
+          const activeAudioFile =
+            chapter.audioFiles.find(
+              (audioFile) => audioFile.id === chapter.activeAudioFileId,
+            ) ?? chapter.audioFiles[0];
+
+          return {
+            ...chapter,
+            isAudioStale:
+              !!activeAudioFile &&
+              isAudioStale(activeAudioFile, content, document.speechOptions),
+          };
+        }),
+        // The text of detached chapters is gone, so their audio is stale
+        ...document.chapters
+          .filter((chapter) => !!chapter.detachedAt)
+          .map((chapter) => ({
+            ...chapter,
+            endPageNumber: chapter.startPageNumber,
+            isAudioStale: chapter.audioFiles.length > 0,
+          })),
+      ].map((chapter) => ({
+        ...chapter,
+        audioFiles: chapter.audioFiles.map((audioFile) => ({
+          ...audioFile,
+          filePath: getAudioFileUrl(audioFile.id),
+        })),
+      })),
+    }));
   }),
 });
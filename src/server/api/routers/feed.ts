@@ -0,0 +1,29 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+import { eq } from "drizzle-orm";
+
+import { users } from "~/server/db/schema";
+import { createFeedToken } from "~/server/feed";
+
+export const feedRouter = createTRPCRouter({
+  get: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.query.users.findFirst({
+      where: eq(users.id, ctx.session.user.id),
+      columns: { feedToken: true },
+    });
+
+    const token = user?.feedToken;
+    return { path: token ? `/api/feed/${token}` : null };
+  }),
+  // Creates the token on first use; later calls break existing subscriptions
+  rotateToken: protectedProcedure.mutation(async ({ ctx }) => {
+    const token = createFeedToken();
+
+    await ctx.db
+      .update(users)
+      .set({ feedToken: token })
+      .where(eq(users.id, ctx.session.user.id));
+
+    return { path: `/api/feed/${token}` };
+  }),
+});
@@ -0,0 +1,151 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+import { z } from "zod";
+import { and, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import { runs } from "@trigger.dev/sdk/v3";
+import { TRPCError, tracked } from "@trpc/server";
+
+import { generationJobs } from "~/server/db/schema";
+import {
+  isJobFinished,
+  markJobsCanceled,
+  toJobSummary,
+  type JobSummary,
+} from "~/server/jobs";
+
+// How often the database is checked for job changes to push to subscribers.
+const SUBSCRIPTION_POLL_MS = 2000;
+
+export const jobRouter = createTRPCRouter({
+  get: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const job = await ctx.db.query.generationJobs.findFirst({
+        where: and(
+          eq(generationJobs.id, input.jobId),
+          eq(generationJobs.userId, ctx.session.user.id),
+        ),
+        with: { children: true },
+      });
+
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      }
+
+      const { children, ...rest } = job;
+      return { ...toJobSummary(rest, children), children };
+    }),
+  list: protectedProcedure
+    .input(
+      z.object({
+        documentId: z.number().optional(),
+        limit: z.number().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const jobs = await ctx.db.query.generationJobs.findMany({
+        where: and(
+          eq(generationJobs.userId, ctx.session.user.id),
+          // Page jobs of a document job are listed through their parent
+          isNull(generationJobs.parentJobId),
+          input.documentId
+            ? eq(generationJobs.documentId, input.documentId)
+            : undefined,
+        ),
+        with: { children: true },
+        orderBy: [desc(generationJobs.createdAt), desc(generationJobs.id)],
+        limit: input.limit,
+      });
+
+      return jobs.map(({ children, ...job }) => toJobSummary(job, children));
+    }),
+  /**
+   * Stream changes to the caller's jobs over SSE. The first batch contains
+   * every unfinished job; after that a job is sent whenever it changes, along
+   * with its parent document job so document progress stays current.
+   */
+  onUpdate: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+    const userId = ctx.session.user.id;
+    const lastSeen = new Map<number, number>();
+    let since: Date | null = null;
+
+    while (!signal?.aborted) {
+      const checkedAt = new Date();
+
+      const changed = await ctx.db.query.generationJobs.findMany({
+        where: and(
+          eq(generationJobs.userId, userId),
+          since
+            ? gte(generationJobs.updatedAt, since)
+            : inArray(generationJobs.status, ["queued", "running"]),
+        ),
+      });
+
+      // Timestamps have second precision, so skip rows already sent
+      const updates = changed.filter(
+        (job) => lastSeen.get(job.id) !== job.updatedAt?.getTime(),
+      );
+
+      const jobIds = new Set(updates.map((job) => job.id));
+      for (const job of updates) {
+        if (job.parentJobId) jobIds.add(job.parentJobId);
+      }
+
+      const jobs =
+        jobIds.size > 0
+          ? await ctx.db.query.generationJobs.findMany({
+              where: and(
+                eq(generationJobs.userId, userId),
+                inArray(generationJobs.id, [...jobIds]),
+              ),
+              with: { children: true },
+            })
+          : [];
+
+      for (const { children, ...job } of jobs) {
+        lastSeen.set(job.id, job.updatedAt?.getTime() ?? 0);
+        const summary: JobSummary = toJobSummary(job, children);
+        yield tracked(`${job.id}:${job.updatedAt?.getTime()}`, summary);
+      }
+
+      // Overlap by a second to cover the timestamp precision
+      since = new Date(checkedAt.getTime() - 1000);
+      await new Promise((resolve) => setTimeout(resolve, SUBSCRIPTION_POLL_MS));
+    }
+  }),
+  cancel: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const job = await ctx.db.query.generationJobs.findFirst({
+        where: and(
+          eq(generationJobs.id, input.jobId),
+          eq(generationJobs.userId, ctx.session.user.id),
+        ),
+        with: { children: true },
+      });
+
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      }
+
+      // Cancel the job and any of its page jobs that are still going
+      const unfinished = [job, ...job.children].filter(
+        (unit) => !isJobFinished(unit.status),
+      );
+
+      await Promise.all(
+        unfinished.map(async (unit) => {
+          if (!unit.runId) return;
+          try {
+            await runs.cancel(unit.runId);
+          } catch (error) {
+            console.error(`Error cancelling run ${unit.runId}:`, error);
+          }
+        }),
+      );
+
+      await markJobsCanceled(unfinished.map((unit) => unit.id));
+
+      return { jobId: job.id, canceled: unfinished.length };
+    }),
+});
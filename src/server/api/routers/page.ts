@@ -0,0 +1,125 @@
+import { createTRPCRouter, documentOwnerProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+
+import { pageRevisions, pages } from "~/server/db/schema";
+import { syncChapters } from "~/server/chapters";
+import { getAudioFileUrl } from "~/server/audio-access";
+import { estimateWords } from "~/server/tts/alignment";
+
+export const pageRouter = createTRPCRouter({
+  update: documentOwnerProcedure
+    .input(
+      z.object({
+        pageId: z.number(),
+        content: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const page = await ctx.db.query.pages.findFirst({
+        where: and(
+          eq(pages.id, input.pageId),
+          eq(pages.documentId, ctx.document.id),
+        ),
+        with: { revisions: { columns: { id: true }, limit: 1 } },
+      });
+
+      if (!page) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Page not found" });
+      }
+
+      if (page.content === input.content) {
+        return page;
+      }
+
+      // Keep the parser output on the first edit, so it can be restored
+      if (page.revisions.length === 0) {
+        await ctx.db.insert(pageRevisions).values({
+          pageId: page.id,
+          content: page.content,
+          source: "extracted",
+        });
+      }
+
+      await ctx.db.insert(pageRevisions).values({
+        pageId: page.id,
+        content: input.content,
+        source: "edit",
+        createdById: ctx.session.user.id,
+      });
+
+      const [updatedPage] = await ctx.db
+        .update(pages)
+        .set({ content: input.content })
+        .where(eq(pages.id, page.id))
+        .returning();
+
+      // Headings may have been added or removed
+      await syncChapters(ctx.document.id);
+
+      return updatedPage;
+    }),
+  revisions: documentOwnerProcedure
+    .input(z.object({ pageId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const page = await ctx.db.query.pages.findFirst({
+        where: and(
+          eq(pages.id, input.pageId),
+          eq(pages.documentId, ctx.document.id),
+        ),
+        with: {
+          revisions: {
+            orderBy: (pageRevisions, { desc }) => [desc(pageRevisions.id)],
+            with: { creator: { columns: { name: true } } },
+          },
+        },
+      });
+
+      if (!page) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Page not found" });
+      }
+
+      return page.revisions;
+    }),
+  readAlong: documentOwnerProcedure
+    .input(z.object({ pageId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const page = await ctx.db.query.pages.findFirst({
+        where: and(
+          eq(pages.id, input.pageId),
+          eq(pages.documentId, ctx.document.id),
+        ),
+        with: {
+          audioFiles: {
+            orderBy: (audioFiles, { desc }) => [desc(audioFiles.createdAt)],
+          },
+        },
+      });
+
+      if (!page) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Page not found" });
+      }
+
+      // Follow the take that plays in the page list
+      const audioFile =
+        page.audioFiles.find(
+          (audioFile) => audioFile.id === page.activeAudioFileId,
+        ) ?? page.audioFiles[0];
+
+      if (!audioFile) {
+        return null;
+      }
+
+      return {
+        audioFileId: audioFile.id,
+        url: getAudioFileUrl(audioFile.id),
+        // Takes from before alignments were stored get an estimate
+        alignment: audioFile.alignment ?? {
+          text: page.content,
+          words: estimateWords(page.content, audioFile.durationMs ?? 0),
+        },
+      };
+    }),
+});
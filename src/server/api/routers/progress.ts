@@ -0,0 +1,72 @@
+import { createTRPCRouter, documentOwnerProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+
+import { audioFiles, listeningProgress } from "~/server/db/schema";
+
+export const progressRouter = createTRPCRouter({
+  get: documentOwnerProcedure.query(async ({ ctx }) => {
+    const progress = await ctx.db.query.listeningProgress.findFirst({
+      where: and(
+        eq(listeningProgress.userId, ctx.session.user.id),
+        eq(listeningProgress.documentId, ctx.document.id),
+      ),
+      with: { page: { columns: { pageNumber: true } } },
+    });
+
+    return progress ?? null;
+  }),
+  save: documentOwnerProcedure
+    .input(
+      z.object({
+        pageId: z.number().nullable(),
+        audioFileId: z.number(),
+        positionMs: z.number().int().min(0),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // The take must belong to a page or chapter of this document
+      const audioFile = await ctx.db.query.audioFiles.findFirst({
+        where: eq(audioFiles.id, input.audioFileId),
+        columns: { pageId: true },
+        with: {
+          page: { columns: { documentId: true } },
+          chapter: { columns: { documentId: true } },
+        },
+      });
+      const documentId =
+        audioFile?.page?.documentId ?? audioFile?.chapter?.documentId;
+
+      if (
+        !audioFile ||
+        documentId !== ctx.document.id ||
+        (input.pageId !== null && audioFile.pageId !== input.pageId)
+      ) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Take not found" });
+      }
+
+      const values = {
+        pageId: input.pageId,
+        audioFileId: input.audioFileId,
+        positionMs: input.positionMs,
+        updatedAt: new Date(),
+      };
+
+      const [progress] = await ctx.db
+        .insert(listeningProgress)
+        .values({
+          ...values,
+          userId: ctx.session.user.id,
+          documentId: ctx.document.id,
+        })
+        .onConflictDoUpdate({
+          target: [listeningProgress.userId, listeningProgress.documentId],
+          set: values,
+        })
+        .returning();
+
+      return progress;
+    }),
+});
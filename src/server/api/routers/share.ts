@@ -0,0 +1,83 @@
+import { createTRPCRouter, documentOwnerProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+
+import { z } from "zod";
+import { and, eq, isNull } from "drizzle-orm";
+
+import { shareLinks } from "~/server/db/schema";
+import { createShareToken, hashSharePassword } from "~/server/shares";
+
+export const shareRouter = createTRPCRouter({
+  create: documentOwnerProcedure
+    .input(
+      z.object({
+        // Links without an expiry stay valid until revoked
+        expiresAt: z.date().optional(),
+        password: z.string().min(4).max(128).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Expiry must be in the future",
+        });
+      }
+
+      const [share] = await ctx.db
+        .insert(shareLinks)
+        .values({
+          documentId: ctx.document.id,
+          token: createShareToken(),
+          passwordHash: input.password
+            ? await hashSharePassword(input.password)
+            : null,
+          expiresAt: input.expiresAt,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      if (!share) {
+        throw new Error("Failed to create share link");
+      }
+
+      return { id: share.id, path: `/share/${share.token}` };
+    }),
+  list: documentOwnerProcedure.query(async ({ ctx }) => {
+    const shares = await ctx.db.query.shareLinks.findMany({
+      where: eq(shareLinks.documentId, ctx.document.id),
+      orderBy: (shareLinks, { desc }) => [desc(shareLinks.createdAt)],
+    });
+
+    const now = new Date();
+
+    // The password hash never leaves the server
+    return shares.map(({ passwordHash, ...share }) => ({
+      ...share,
+      path: `/share/${share.token}`,
+      hasPassword: !!passwordHash,
+      isActive: !share.revokedAt && (!share.expiresAt || share.expiresAt > now),
+    }));
+  }),
+  revoke: documentOwnerProcedure
+    .input(z.object({ shareId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [share] = await ctx.db
+        .update(shareLinks)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(shareLinks.id, input.shareId),
+            eq(shareLinks.documentId, ctx.document.id),
+            isNull(shareLinks.revokedAt),
+          ),
+        )
+        .returning({ id: shareLinks.id });
+
+      if (!share) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Link not found" });
+      }
+
+      return share;
+    }),
+});
@@ -1,22 +1,50 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { uploads } from "~/server/db/schema";
 
 const f = createUploadthing();
 
-export const ourFileRouter = {
-  pdfUploader: f({ pdf: { maxFileSize: "16MB" } })
-    .middleware(async () => {
-      const session = await auth();
-      if (!session) throw new Error("Unauthorized");
+async function requireUser() {
+  const session = await auth();
+  if (!session) throw new Error("Unauthorized");
+
+  return { userId: session.user.id };
+}
 
-      return { userId: session.user.id };
-    })
-    .onUploadComplete(async ({ metadata, file }) => {
-      console.log("Upload complete for userId:", metadata.userId);
-      console.log("File URL:", file.url);
+// Remember who uploaded the file; documents are only created from the
+// caller's own uploads, and purging one deletes the file from UploadThing.
+async function handleUploadComplete({
+  metadata,
+  file,
+}: {
+  metadata: { userId: string };
+  file: { key: string; url: string };
+}) {
+  await db
+    .insert(uploads)
+    .values({ key: file.key, userId: metadata.userId, url: file.url })
+    .onConflictDoNothing();
 
-      return { uploadedBy: metadata.userId };
-    }),
+  return { uploadedBy: metadata.userId };
+}
+
+export const ourFileRouter = {
+  pdfUploader: f({ pdf: { maxFileSize: "16MB" } })
+    .middleware(requireUser)
+    .onUploadComplete(handleUploadComplete),
+  documentUploader: f({
+    pdf: { maxFileSize: "16MB" },
+    "application/epub+zip": { maxFileSize: "32MB" },
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+      maxFileSize: "16MB",
+    },
+    "text/plain": { maxFileSize: "4MB" },
+    "text/html": { maxFileSize: "4MB" },
+    "text/markdown": { maxFileSize: "4MB" },
+  })
+    .middleware(requireUser)
+    .onUploadComplete(handleUploadComplete),
 } satisfies FileRouter;
 
 export type UploadThingRouter = typeof ourFileRouter;
@@ -0,0 +1,9 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+import { getUsage } from "~/server/usage";
+
+export const usageRouter = createTRPCRouter({
+  summary: protectedProcedure.query(async ({ ctx }) => {
+    return getUsage(ctx.session.user.id);
+  }),
+});
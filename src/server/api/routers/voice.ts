@@ -0,0 +1,21 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+import { getTtsProvider } from "~/server/tts";
+import { resolveSynthesisProfile } from "~/server/tts/profile";
+import { listVoices } from "~/server/tts/voices";
+
+export const voiceRouter = createTRPCRouter({
+  list: protectedProcedure.query(async () => {
+    const voices = await listVoices();
+
+    return { voices, defaultVoice: getTtsProvider().defaultVoice };
+  }),
+  models: protectedProcedure.query(() => {
+    const provider = getTtsProvider();
+
+    return {
+      models: provider.models,
+      defaultProfile: resolveSynthesisProfile(null, provider),
+    };
+  }),
+});
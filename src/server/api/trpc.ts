@@ -8,11 +8,13 @@
  */
 
 import { initTRPC, TRPCError } from "@trpc/server";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
 import superjson from "superjson";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { documents } from "~/server/db/schema";
 
 /**
  * 1. CONTEXT
@@ -131,3 +133,52 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Document owner procedure
+ *
+ * Use this for procedures that act on a single document. It requires a `documentId` input, verifies
+ * that the document belongs to the signed-in user and exposes it as `ctx.document`. Documents of
+ * other users are reported as not found so their existence is not leaked, and so are documents in
+ * the trash.
+ */
+export const documentOwnerProcedure = protectedProcedure
+  .input(z.object({ documentId: z.number() }))
+  .use(async ({ ctx, input, next }) => {
+    const document = await ctx.db.query.documents.findFirst({
+      where: and(
+        eq(documents.id, input.documentId),
+        eq(documents.createdById, ctx.session.user.id),
+        isNull(documents.deletedAt),
+      ),
+    });
+
+    if (!document) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+    }
+
+    return next({ ctx: { document } });
+  });
+
+/**
+ * Trashed document owner procedure
+ *
+ * Same as `documentOwnerProcedure`, but only matches documents that are in the trash.
+ */
+export const trashedDocumentOwnerProcedure = protectedProcedure
+  .input(z.object({ documentId: z.number() }))
+  .use(async ({ ctx, input, next }) => {
+    const document = await ctx.db.query.documents.findFirst({
+      where: and(
+        eq(documents.id, input.documentId),
+        eq(documents.createdById, ctx.session.user.id),
+        isNotNull(documents.deletedAt),
+      ),
+    });
+
+    if (!document) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+    }
+
+    return next({ ctx: { document } });
+  });
@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", async () => {
+  const { createTestDatabase } = await import("~/test/db");
+  return createTestDatabase();
+});
+
+import { isStorageKeyOwner } from "~/server/audio-access";
+import { db } from "~/server/db";
+import {
+  audiobooks,
+  audioFiles,
+  documents,
+  pages,
+  users,
+} from "~/server/db/schema";
+
+beforeAll(async () => {
+  await db.insert(users).values([
+    { id: "owner", email: "owner@example.com" },
+    { id: "other", email: "other@example.com" },
+  ]);
+  const [document, trashed] = await db
+    .insert(documents)
+    .values([
+      { name: "Document", createdById: "owner" },
+      { name: "Trashed", createdById: "owner", deletedAt: new Date() },
+    ])
+    .returning();
+  const [page, trashedPage] = await db
+    .insert(pages)
+    .values([
+      { documentId: document!.id, pageNumber: 1, content: "Rivers." },
+      { documentId: trashed!.id, pageNumber: 1, content: "Lakes." },
+    ])
+    .returning();
+
+  await db.insert(audioFiles).values([
+    {
+      pageId: page!.id,
+      fileName: "take.mp3",
+      filePath: "",
+      storageKey: "audio/take.mp3",
+    },
+    {
+      pageId: trashedPage!.id,
+      fileName: "trashed.mp3",
+      filePath: "",
+      storageKey: "audio/trashed.mp3",
+    },
+  ]);
+  await db.insert(audiobooks).values({
+    documentId: document!.id,
+    status: "completed",
+    storageKey: "audiobooks/book.mp3",
+  });
+});
+
+describe("isStorageKeyOwner", () => {
+  it("allows the owner of a take or audiobook", async () => {
+    expect(await isStorageKeyOwner("owner", "audio/take.mp3")).toBe(true);
+    expect(await isStorageKeyOwner("owner", "audiobooks/book.mp3")).toBe(true);
+  });
+
+  it("rejects other users, unknown keys and trashed documents", async () => {
+    expect(await isStorageKeyOwner("other", "audio/take.mp3")).toBe(false);
+    expect(await isStorageKeyOwner("other", "audiobooks/book.mp3")).toBe(false);
+    expect(await isStorageKeyOwner("owner", "audio/missing.mp3")).toBe(false);
+    expect(await isStorageKeyOwner("owner", "audio/trashed.mp3")).toBe(false);
+  });
+});
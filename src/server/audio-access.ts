@@ -0,0 +1,112 @@
+import { and, eq } from "drizzle-orm";
+
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { audiobooks, audioFiles, users } from "~/server/db/schema";
+
+/**
+ * App URL a take is played from. Pass the owner's feed token for clients that
+ * cannot sign in.
+ */
+export function getAudioFileUrl(id: number, feedToken?: string) {
+  return `/api/audio/${id}${feedToken ? `?token=${feedToken}` : ""}`;
+}
+
+export function getAudiobookUrl(id: number, feedToken?: string) {
+  return `/api/audiobooks/${id}${feedToken ? `?token=${feedToken}` : ""}`;
+}
+
+/**
+ * Whether the request may read audio of `ownerId`: either the owner is signed
+ * in, or the URL carries their feed token (podcast apps cannot sign in).
+ */
+async function isAudioOwner(req: Request, ownerId: string) {
+  const session = await auth();
+  if (session?.user?.id === ownerId) return true;
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) return false;
+
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, ownerId), eq(users.feedToken, token)),
+    columns: { id: true },
+  });
+  return !!user;
+}
+
+/**
+ * Load a take if the request may play it. Takes of documents in the trash are
+ * not served.
+ */
+export async function getAudioFileForRequest(req: Request, id: number) {
+  const audioFile = await db.query.audioFiles.findFirst({
+    where: eq(audioFiles.id, id),
+    with: {
+      page: {
+        with: {
+          document: { columns: { createdById: true, deletedAt: true } },
+        },
+      },
+      chapter: {
+        with: {
+          document: { columns: { createdById: true, deletedAt: true } },
+        },
+      },
+    },
+  });
+
+  const document = audioFile?.page?.document ?? audioFile?.chapter?.document;
+  if (!audioFile || !document || document.deletedAt) return null;
+
+  return (await isAudioOwner(req, document.createdById)) ? audioFile : null;
+}
+
+/**
+ * Load a finished audiobook if the request may play or download it.
+ */
+export async function getAudiobookForRequest(req: Request, id: number) {
+  const audiobook = await db.query.audiobooks.findFirst({
+    where: and(eq(audiobooks.id, id), eq(audiobooks.status, "completed")),
+    with: {
+      document: {
+        columns: { name: true, createdById: true, deletedAt: true },
+      },
+    },
+  });
+
+  if (!audiobook || audiobook.document.deletedAt) return null;
+
+  return (await isAudioOwner(req, audiobook.document.createdById))
+    ? audiobook
+    : null;
+}
+
+/**
+ * Whether a user owns a take or audiobook stored under `storageKey`. Cached
+ * audio can be shared by several takes, so any of them counts. Documents in
+ * the trash are not served.
+ */
+export async function isStorageKeyOwner(userId: string, storageKey: string) {
+  const document = {
+    columns: { createdById: true, deletedAt: true },
+  } as const;
+
+  const takes = await db.query.audioFiles.findMany({
+    where: eq(audioFiles.storageKey, storageKey),
+    columns: { id: true },
+    with: {
+      page: { columns: { id: true }, with: { document } },
+      chapter: { columns: { id: true }, with: { document } },
+    },
+  });
+  const audiobookRows = await db.query.audiobooks.findMany({
+    where: eq(audiobooks.storageKey, storageKey),
+    columns: { id: true },
+    with: { document },
+  });
+
+  return [
+    ...takes.map((take) => take.page?.document ?? take.chapter?.document),
+    ...audiobookRows.map((audiobook) => audiobook.document),
+  ].some((owner) => owner && owner.createdById === userId && !owner.deletedAt);
+}
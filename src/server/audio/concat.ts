@@ -0,0 +1,38 @@
+import { concatWav } from "./wav";
+
+/**
+ * Size of a leading ID3v2 tag, or 0 if the buffer does not start with one.
+ */
+export function getId3TagSize(buffer: Buffer) {
+  if (buffer.length < 10 || buffer.toString("ascii", 0, 3) !== "ID3") {
+    return 0;
+  }
+
+  // The tag size is a 28-bit "syncsafe" integer (7 bits per byte).
+  const size =
+    ((buffer[6]! & 0x7f) << 21) |
+    ((buffer[7]! & 0x7f) << 14) |
+    ((buffer[8]! & 0x7f) << 7) |
+    (buffer[9]! & 0x7f);
+  const hasFooter = (buffer[5]! & 0x10) !== 0;
+
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Join audio segments of the same format into one file. MP3 frames can simply
+ * be appended (any ID3 tags are dropped); WAV files are re-wrapped with a
+ * single header.
+ */
+export function concatAudio(buffers: Buffer[], contentType: string): Buffer {
+  switch (contentType) {
+    case "audio/mpeg":
+      return Buffer.concat(
+        buffers.map((buffer) => buffer.subarray(getId3TagSize(buffer))),
+      );
+    case "audio/wav":
+      return concatWav(buffers);
+    default:
+      throw new Error(`Cannot concatenate audio of type ${contentType}`);
+  }
+}
@@ -0,0 +1,16 @@
+import { getMp3Duration } from "./mp3";
+import { getWavDuration } from "./wav";
+
+/**
+ * Duration of an audio file in milliseconds.
+ */
+export function getAudioDuration(buffer: Buffer, contentType: string): number {
+  switch (contentType) {
+    case "audio/mpeg":
+      return getMp3Duration(buffer);
+    case "audio/wav":
+      return getWavDuration(buffer);
+    default:
+      throw new Error(`Cannot read duration of audio type ${contentType}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { buildId3Tag } from "./id3";
+
+type Frame = { id: string; body: Buffer };
+
+function readFrames(tag: Buffer) {
+  const frames: Frame[] = [];
+  let offset = 10;
+
+  while (offset < tag.length) {
+    const id = tag.toString("ascii", offset, offset + 4);
+    const size = tag.readUInt32BE(offset + 4);
+    frames.push({ id, body: tag.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+
+  return frames;
+}
+
+function readToc({ body }: Frame) {
+  const strings = body.toString("latin1").split("\0");
+  const id = strings[0]!;
+  const flags = body[id.length + 1]!;
+  const count = body[id.length + 2]!;
+  const children = body
+    .subarray(id.length + 3)
+    .toString("latin1")
+    .split("\0")
+    .slice(0, count);
+
+  return { id, flags, count, children };
+}
+
+function chapters(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    title: `Chapter ${index + 1}`,
+    startMs: index * 1000,
+    endMs: (index + 1) * 1000,
+  }));
+}
+
+describe("buildId3Tag", () => {
+  it("writes a single table of contents for few chapters", () => {
+    const frames = readFrames(
+      buildId3Tag({ title: "Book", chapters: chapters(3) }),
+    );
+    const tocs = frames.filter((frame) => frame.id === "CTOC").map(readToc);
+
+    expect(tocs).toEqual([
+      { id: "toc", flags: 0x03, count: 3, children: ["chp0", "chp1", "chp2"] },
+    ]);
+    expect(frames.filter((frame) => frame.id === "CHAP")).toHaveLength(3);
+  });
+
+  it("nests tables of contents above 255 chapters", () => {
+    const frames = readFrames(
+      buildId3Tag({ title: "Book", chapters: chapters(300) }),
+    );
+    const tocs = frames.filter((frame) => frame.id === "CTOC").map(readToc);
+
+    expect(tocs.map(({ id, flags, count }) => ({ id, flags, count }))).toEqual([
+      { id: "toc", flags: 0x03, count: 2 },
+      { id: "toc-0", flags: 0x01, count: 255 },
+      { id: "toc-1", flags: 0x01, count: 45 },
+    ]);
+    expect(tocs[0]!.children).toEqual(["toc-0", "toc-1"]);
+    expect(tocs[2]!.children.at(-1)).toBe("chp299");
+    expect(frames.filter((frame) => frame.id === "CHAP")).toHaveLength(300);
+  });
+});
@@ -0,0 +1,123 @@
+type Id3Chapter = {
+  title: string;
+  startMs: number;
+  endMs: number;
+};
+
+type Id3Metadata = {
+  title: string;
+  artist?: string;
+  chapters?: Id3Chapter[];
+};
+
+function syncsafe(size: number) {
+  return Buffer.from([
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f,
+  ]);
+}
+
+function frame(id: string, body: Buffer) {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "ascii");
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// Text frame encoded as UTF-16 with BOM (encoding byte 0x01).
+function textFrame(id: string, value: string) {
+  return frame(
+    id,
+    Buffer.concat([
+      Buffer.from([0x01, 0xff, 0xfe]),
+      Buffer.from(value, "utf16le"),
+      Buffer.from([0x00, 0x00]),
+    ]),
+  );
+}
+
+function nullTerminated(value: string) {
+  return Buffer.from(`${value}\0`, "latin1");
+}
+
+const TOC_TOP_LEVEL = 0x02;
+const TOC_ORDERED = 0x01;
+// The entry count of a CTOC frame is a single byte
+const TOC_MAX_ENTRIES = 255;
+
+/**
+ * CTOC frames listing `childIds`. Longer lists are split into nested tables of
+ * contents of at most 255 entries each.
+ */
+function tocFrames(id: string, childIds: string[], flags: number): Buffer[] {
+  if (childIds.length <= TOC_MAX_ENTRIES) {
+    return [
+      frame(
+        "CTOC",
+        Buffer.concat([
+          nullTerminated(id),
+          Buffer.from([flags, childIds.length]),
+          ...childIds.map(nullTerminated),
+        ]),
+      ),
+    ];
+  }
+
+  const groups: string[][] = [];
+  for (let index = 0; index < childIds.length; index += TOC_MAX_ENTRIES) {
+    groups.push(childIds.slice(index, index + TOC_MAX_ENTRIES));
+  }
+  const groupIds = groups.map((_, index) => `${id}-${index}`);
+
+  return [
+    ...tocFrames(id, groupIds, flags),
+    ...groups.flatMap((group, index) =>
+      tocFrames(groupIds[index]!, group, TOC_ORDERED),
+    ),
+  ];
+}
+
+/**
+ * Build an ID3v2.3 tag with title/artist frames and, when chapters are given,
+ * a table of contents (CTOC) plus one CHAP frame per chapter.
+ */
+export function buildId3Tag({ title, artist, chapters = [] }: Id3Metadata) {
+  const frames = [textFrame("TIT2", title), textFrame("TALB", title)];
+  if (artist) frames.push(textFrame("TPE1", artist));
+
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, index) => `chp${index}`);
+    frames.push(...tocFrames("toc", ids, TOC_TOP_LEVEL | TOC_ORDERED));
+
+    chapters.forEach((chapter, index) => {
+      const times = Buffer.alloc(16);
+      times.writeUInt32BE(Math.round(chapter.startMs), 0);
+      times.writeUInt32BE(Math.round(chapter.endMs), 4);
+      // Byte offsets are unused
+      times.writeUInt32BE(0xffffffff, 8);
+      times.writeUInt32BE(0xffffffff, 12);
+
+      frames.push(
+        frame(
+          "CHAP",
+          Buffer.concat([
+            nullTerminated(ids[index]!),
+            times,
+            textFrame("TIT2", chapter.title),
+          ]),
+        ),
+      );
+    });
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.concat([
+    Buffer.from("ID3", "ascii"),
+    Buffer.from([0x03, 0x00, 0x00]),
+    syncsafe(body.length),
+  ]);
+
+  return Buffer.concat([header, body]);
+}
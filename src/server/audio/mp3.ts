@@ -0,0 +1,70 @@
+import { getId3TagSize } from "./concat";
+
+// Bitrates in kbps for Layer III, indexed by the 4-bit bitrate field.
+const BITRATES_V1 = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+const BITRATES_V2 = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160,
+];
+
+// Sample rates in Hz, indexed by MPEG version then the 2-bit rate field.
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+type FrameHeader = {
+  length: number;
+  samples: number;
+  sampleRate: number;
+};
+
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length) return null;
+
+  const b1 = buffer[offset]!;
+  const b2 = buffer[offset + 1]!;
+  const b3 = buffer[offset + 2]!;
+  if (b1 !== 0xff || (b2 & 0xe0) !== 0xe0) return null;
+
+  const version = (b2 >> 3) & 0x03;
+  const layer = (b2 >> 1) & 0x03;
+  // Only Layer III is supported; version 1 is reserved.
+  if (version === 1 || layer !== 1) return null;
+
+  const bitrate = (version === 3 ? BITRATES_V1 : BITRATES_V2)[(b3 >> 4) & 0x0f];
+  const sampleRate = SAMPLE_RATES[version]?.[(b3 >> 2) & 0x03];
+  if (!bitrate || !sampleRate) return null;
+
+  const samples = version === 3 ? 1152 : 576;
+  const padding = (b3 >> 1) & 0x01;
+  const length =
+    Math.floor(((samples / 8) * bitrate * 1000) / sampleRate) + padding;
+
+  return { length, samples, sampleRate };
+}
+
+/**
+ * Duration of an MP3 file in milliseconds, computed by walking its frames.
+ * Works for both constant and variable bitrate files.
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  let offset = getId3TagSize(buffer);
+  let seconds = 0;
+
+  while (offset < buffer.length) {
+    const frame = readFrameHeader(buffer, offset);
+    if (!frame) {
+      // Skip garbage between frames until the next sync word.
+      offset++;
+      continue;
+    }
+
+    seconds += frame.samples / frame.sampleRate;
+    offset += frame.length;
+  }
+
+  return Math.round(seconds * 1000);
+}
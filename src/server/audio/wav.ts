@@ -0,0 +1,104 @@
+const HEADER_SIZE = 44;
+
+/**
+ * Encode mono 16-bit PCM samples as a WAV file.
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const buffer = Buffer.alloc(HEADER_SIZE + dataSize);
+
+  // Write WAV header
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(dataSize, 40);
+
+  // Write audio data
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i] ?? 0, HEADER_SIZE + i * 2);
+  }
+
+  return buffer;
+}
+
+type WavData = {
+  // Raw bytes of the `fmt ` chunk body.
+  format: Buffer;
+  data: Buffer;
+};
+
+/**
+ * Read the format and sample data chunks of a WAV file.
+ */
+export function readWav(buffer: Buffer): WavData {
+  if (
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Invalid WAV file");
+  }
+
+  let format: Buffer | undefined;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = buffer.subarray(offset + 8, offset + 8 + size);
+
+    if (id === "fmt ") format = body;
+    if (id === "data") {
+      if (!format) throw new Error("Invalid WAV file: data before fmt chunk");
+      return { format, data: body };
+    }
+
+    // Chunks are padded to an even number of bytes.
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error("Invalid WAV file: no data chunk found");
+}
+
+/**
+ * Join WAV files that share the same format into a single file.
+ */
+export function concatWav(buffers: Buffer[]): Buffer {
+  const parts = buffers.map(readWav);
+  const format = parts[0]?.format;
+  if (!format) throw new Error("No audio to concatenate");
+
+  if (parts.some((part) => !part.format.equals(format))) {
+    throw new Error("Cannot concatenate WAV files with different formats");
+  }
+
+  const data = Buffer.concat(parts.map((part) => part.data));
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(4 + 8 + format.length + 8 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(format.length, 16);
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0, "ascii");
+  dataHeader.writeUInt32LE(data.length, 4);
+
+  return Buffer.concat([header, format, dataHeader, data]);
+}
+
+/**
+ * Duration of a WAV file in milliseconds.
+ */
+export function getWavDuration(buffer: Buffer): number {
+  const { format, data } = readWav(buffer);
+  const byteRate = format.readUInt32LE(8);
+  return Math.round((data.length / byteRate) * 1000);
+}
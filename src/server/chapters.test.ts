@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("~/server/db", async () => {
+  const { createTestDatabase } = await import("~/test/db");
+  return createTestDatabase();
+});
+
+import { and, asc, eq } from "drizzle-orm";
+
+import { deleteChapters, getChapters, syncChapters } from "~/server/chapters";
+import { db } from "~/server/db";
+import {
+  audioFiles,
+  chapters,
+  documents,
+  pages,
+  users,
+} from "~/server/db/schema";
+
+let documentId = 0;
+let pageId = 0;
+
+beforeEach(async () => {
+  await db
+    .insert(users)
+    .values({ id: "user", email: "user@example.com" })
+    .onConflictDoNothing();
+  const [document] = await db
+    .insert(documents)
+    .values({ name: "Document", createdById: "user" })
+    .returning();
+  documentId = document!.id;
+
+  const [page] = await db
+    .insert(pages)
+    .values({
+      documentId,
+      pageNumber: 1,
+      content:
+        "## Rivers\n\nRivers carve valleys.\n\n## Lakes\n\nLakes are still.",
+    })
+    .returning();
+  pageId = page!.id;
+});
+
+async function setContent(content: string) {
+  await db.update(pages).set({ content }).where(eq(pages.id, pageId));
+}
+
+async function addTake(title: string) {
+  const chapter = await db.query.chapters.findFirst({
+    where: and(eq(chapters.documentId, documentId), eq(chapters.title, title)),
+  });
+  const [take] = await db
+    .insert(audioFiles)
+    .values({
+      chapterId: chapter!.id,
+      fileName: "take.mp3",
+      filePath: "",
+    })
+    .returning();
+  return take!;
+}
+
+async function listChapters() {
+  return db.query.chapters.findMany({
+    where: eq(chapters.documentId, documentId),
+    orderBy: [asc(chapters.number)],
+    with: { audioFiles: { columns: { id: true, storageKey: true } } },
+  });
+}
+
+describe("syncChapters", () => {
+  it("keeps takes on their chapter when a heading is added before it", async () => {
+    await syncChapters(documentId);
+    const take = await addTake("Lakes");
+
+    await setContent(
+      "## Rivers\n\nRivers carve valleys.\n\n## Hills\n\nHills roll.\n\n## Lakes\n\nLakes are still.",
+    );
+    await syncChapters(documentId);
+
+    const current = await listChapters();
+    expect(current.map((chapter) => chapter.title)).toEqual([
+      "Rivers",
+      "Hills",
+      "Lakes",
+    ]);
+    expect(current[2]!.audioFiles.map((file) => file.id)).toEqual([take.id]);
+  });
+
+  it("detaches removed chapters with takes and deletes those without", async () => {
+    await syncChapters(documentId);
+    const take = await addTake("Lakes");
+
+    await setContent("## Hills\n\nHills roll.");
+    await syncChapters(documentId);
+
+    const current = await listChapters();
+    expect(
+      current.map(({ title, detachedAt }) => ({
+        title,
+        detached: !!detachedAt,
+      })),
+    ).toEqual([
+      { title: "Hills", detached: false },
+      { title: "Lakes", detached: true },
+    ]);
+    expect(current[1]!.audioFiles.map((file) => file.id)).toEqual([take.id]);
+    expect(
+      (await getChapters(documentId)).map((chapter) => chapter.title),
+    ).toEqual(["Hills"]);
+
+    await deleteChapters([current[1]!]);
+    expect(await listChapters()).toHaveLength(1);
+    expect(
+      await db.query.audioFiles.findFirst({
+        where: eq(audioFiles.id, take.id),
+      }),
+    ).toBeUndefined();
+  });
+
+  it("reattaches a chapter when its heading comes back", async () => {
+    await syncChapters(documentId);
+    await addTake("Lakes");
+
+    await setContent("## Rivers\n\nRivers carve valleys.");
+    await syncChapters(documentId);
+    await setContent(
+      "## Rivers\n\nRivers carve valleys.\n\n## Lakes\n\nLakes are still.",
+    );
+    await syncChapters(documentId);
+
+    const current = await listChapters();
+    expect(current.map((chapter) => chapter.detachedAt)).toEqual([null, null]);
+    expect(current[1]!.audioFiles).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { chapters, generationJobs, pages } from "~/server/db/schema";
+import {
+  detectChapters,
+  getChapterContent,
+  type DetectedChapter,
+  type SourcePage,
+} from "~/server/parsers/structure";
+import { deleteTakes } from "~/server/takes";
+
+/**
+ * Add the text and the last page to chapters of a document. Chapters must be
+ * in document order.
+ */
+export function withChapterContent<T extends DetectedChapter>(
+  documentChapters: T[],
+  documentPages: SourcePage[],
+) {
+  const lastPageNumber = Math.max(
+    ...documentPages.map((page) => page.pageNumber),
+  );
+
+  return documentChapters.map((chapter, index) => {
+    const next = documentChapters[index + 1];
+
+    return {
+      ...chapter,
+      content: getChapterContent(documentPages, chapter, next),
+      // A chapter that starts at the top of a page ends on the page before
+      endPageNumber: next
+        ? next.startPageNumber - (next.startOffset === 0 ? 1 : 0)
+        : lastPageNumber,
+    };
+  });
+}
+
+/**
+ * Detect the chapters of a document from its current page text and store
+ * them. Existing chapters are matched by heading, so takes stay with the text
+ * they were recorded from when headings are added or removed, and show up as
+ * stale when that text changed. Chapters whose heading is gone are deleted
+ * only when they have no takes; otherwise they are detached and kept until
+ * the user deletes them.
+ */
+export async function syncChapters(documentId: number) {
+  const documentPages = await db.query.pages.findMany({
+    where: eq(pages.documentId, documentId),
+    columns: { pageNumber: true, content: true },
+  });
+  const detected = detectChapters(documentPages);
+
+  const unmatched = await db.query.chapters.findMany({
+    where: eq(chapters.documentId, documentId),
+    orderBy: [asc(chapters.number)],
+    with: { audioFiles: { columns: { id: true, storageKey: true } } },
+  });
+  const takeMatch = (
+    matches: (chapter: (typeof unmatched)[number]) => boolean,
+  ) => {
+    const index = unmatched.findIndex(matches);
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  // Same heading on the same page first, then the same heading anywhere
+  const matched = detected.map((chapter) =>
+    takeMatch(
+      (current) =>
+        current.title === chapter.title &&
+        current.startPageNumber === chapter.startPageNumber,
+    ),
+  );
+  detected.forEach((chapter, index) => {
+    matched[index] ??= takeMatch((current) => current.title === chapter.title);
+  });
+
+  for (const [index, chapter] of detected.entries()) {
+    const current = matched[index];
+
+    if (current) {
+      await db
+        .update(chapters)
+        .set({ ...chapter, number: index + 1, detachedAt: null })
+        .where(eq(chapters.id, current.id));
+    } else {
+      await db
+        .insert(chapters)
+        .values({ ...chapter, documentId, number: index + 1 });
+    }
+  }
+
+  const detached = unmatched.filter((chapter) => chapter.audioFiles.length > 0);
+  const unused = unmatched.filter((chapter) => chapter.audioFiles.length === 0);
+
+  // Detached chapters are numbered after the current ones
+  for (const [index, chapter] of detached.entries()) {
+    await db
+      .update(chapters)
+      .set({
+        number: detected.length + index + 1,
+        detachedAt: chapter.detachedAt ?? new Date(),
+      })
+      .where(eq(chapters.id, chapter.id));
+  }
+  await deleteChapters(unused);
+
+  return detected.length;
+}
+
+/**
+ * Delete chapters together with their takes and stored audio.
+ */
+export async function deleteChapters(
+  chaptersToDelete: {
+    id: number;
+    audioFiles: { id: number; storageKey: string | null }[];
+  }[],
+) {
+  if (chaptersToDelete.length === 0) return;
+
+  const ids = chaptersToDelete.map((chapter) => chapter.id);
+
+  await deleteTakes(chaptersToDelete.flatMap((chapter) => chapter.audioFiles));
+  await db
+    .update(generationJobs)
+    .set({ chapterId: null })
+    .where(inArray(generationJobs.chapterId, ids));
+  await db.delete(chapters).where(inArray(chapters.id, ids));
+}
+
+/**
+ * Chapters of a document in order, with their text. Detached chapters are left
+ * out.
+ */
+export async function getChapters(documentId: number) {
+  const documentChapters = await db.query.chapters.findMany({
+    where: and(
+      eq(chapters.documentId, documentId),
+      isNull(chapters.detachedAt),
+    ),
+    orderBy: [asc(chapters.number)],
+  });
+  const documentPages = await db.query.pages.findMany({
+    where: eq(pages.documentId, documentId),
+    columns: { pageNumber: true, content: true },
+  });
+
+  return withChapterContent(documentChapters, documentPages);
+}
@@ -18,3 +18,5 @@ export const client =
 if (env.NODE_ENV !== "production") globalForDb.client = client;
 
 export const db = drizzle(client, { schema });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
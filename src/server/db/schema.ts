@@ -1,13 +1,19 @@
 import { relations, sql } from "drizzle-orm";
 import {
+  type AnySQLiteColumn,
   index,
   int,
   primaryKey,
   sqliteTableCreator,
   text,
+  uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 import { type AdapterAccount } from "next-auth/adapters";
 
+import { type Alignment } from "~/server/tts/alignment";
+import { type SpeechOptions } from "~/server/tts/normalize";
+import { type SynthesisProfile } from "~/server/tts/profile";
+
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
  * database instance for multiple projects.
@@ -29,10 +35,19 @@ export const users = createTable("user", {
     mode: "timestamp",
   }).default(sql`(unixepoch())`),
   image: text("image", { length: 255 }),
+  // Plan that sets the monthly character quota.
+  plan: text("plan", { enum: ["free", "pro"] })
+    .default("free")
+    .notNull(),
+  // Overrides the plan quota for this user when set.
+  monthlyCharacterLimit: int("monthly_character_limit"),
+  // Secret in podcast feed URLs; rotating it invalidates old subscriptions.
+  feedToken: text("feed_token", { length: 64 }).unique(),
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
   accounts: many(accounts),
+  usageEntries: many(usageEntries),
 }));
 
 export const accounts = createTable(
@@ -101,6 +116,20 @@ export const documents = createTable(
   {
     id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
     name: text("name", { length: 256 }).notNull(),
+    // Overrides for how page text is normalized before synthesis.
+    speechOptions: text("speech_options", { mode: "json" }).$type<
+      Partial<SpeechOptions>
+    >(),
+    // Default voice for the pages of the document.
+    voice: text("voice", { length: 255 }),
+    // Model and voice settings, merged over the provider defaults.
+    synthesisProfile: text("synthesis_profile", { mode: "json" }).$type<
+      Partial<SynthesisProfile>
+    >(),
+    // Web page the document was imported from.
+    sourceUrl: text("source_url"),
+    // UploadThing key of the uploaded source file, removed when purged.
+    sourceFileKey: text("source_file_key", { length: 255 }),
     createdById: text("created_by", { length: 255 })
       .notNull()
       .references(() => users.id),
@@ -110,6 +139,8 @@ export const documents = createTable(
     updatedAt: int("updatedAt", { mode: "timestamp" }).$onUpdate(
       () => new Date(),
     ),
+    // Set when the document is moved to the trash.
+    deletedAt: int("deleted_at", { mode: "timestamp" }),
   },
   (table) => ({
     createdByIdIdx: index("doc_created_by_idx").on(table.createdById),
@@ -126,6 +157,12 @@ export const pages = createTable(
       .references(() => documents.id),
     pageNumber: int("page_number").notNull(),
     content: text("content").notNull(),
+    // Voice override for this page, falling back to the document voice.
+    voice: text("voice", { length: 255 }),
+    // Take used for playback and audiobook export.
+    activeAudioFileId: int("active_audio_file_id").references(
+      (): AnySQLiteColumn => audioFiles.id,
+    ),
     createdAt: int("created_at", { mode: "timestamp" })
       .default(sql`(unixepoch())`)
       .notNull(),
@@ -136,8 +173,56 @@ export const pages = createTable(
   }),
 );
 
+export const chapters = createTable(
+  "chapter",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    documentId: int("document_id")
+      .notNull()
+      .references(() => documents.id),
+    // Position of the chapter in the document, starting at 1.
+    number: int("number").notNull(),
+    title: text("title").notNull(),
+    // The chapter starts at this character offset of this page and runs until
+    // the next chapter starts.
+    startPageNumber: int("start_page_number").notNull(),
+    startOffset: int("start_offset").notNull(),
+    // Take used for playback and audiobook export.
+    activeAudioFileId: int("active_audio_file_id").references(
+      (): AnySQLiteColumn => audioFiles.id,
+    ),
+    // Set when the heading is no longer in the text. The chapter keeps its
+    // takes until the user deletes it.
+    detachedAt: int("detached_at", { mode: "timestamp" }),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+    updatedAt: int("updatedAt", { mode: "timestamp" }).$onUpdate(
+      () => new Date(),
+    ),
+  },
+  (table) => ({
+    documentIdIdx: index("chapter_document_id_idx").on(table.documentId),
+  }),
+);
+
+export const chaptersRelations = relations(chapters, ({ one, many }) => ({
+  document: one(documents, {
+    fields: [chapters.documentId],
+    references: [documents.id],
+  }),
+  audioFiles: many(audioFiles, { relationName: "chapterTakes" }),
+  activeAudioFile: one(audioFiles, {
+    fields: [chapters.activeAudioFileId],
+    references: [audioFiles.id],
+  }),
+}));
+
 export const documentsRelations = relations(documents, ({ many, one }) => ({
   pages: many(pages),
+  chapters: many(chapters),
+  audiobooks: many(audiobooks),
+  shareLinks: many(shareLinks),
   creator: one(users, {
     fields: [documents.createdById],
     references: [users.id],
@@ -149,27 +234,362 @@ export const pagesRelations = relations(pages, ({ one, many }) => ({
     fields: [pages.documentId],
     references: [documents.id],
   }),
-  audioFiles: many(audioFiles),
+  audioFiles: many(audioFiles, { relationName: "takes" }),
+  activeAudioFile: one(audioFiles, {
+    fields: [pages.activeAudioFileId],
+    references: [audioFiles.id],
+  }),
+  revisions: many(pageRevisions),
 }));
 
 export const audioFiles = createTable(
   "audio_file",
   {
     id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
-    pageId: int("page_id")
-      .notNull()
-      .references(() => pages.id),
+    // A take belongs to either a page or a chapter.
+    pageId: int("page_id").references(() => pages.id),
+    chapterId: int("chapter_id").references(() => chapters.id),
     fileName: text("file_name", { length: 256 }).notNull(),
     filePath: text("file_path").notNull(),
+    // Key in the storage backend. Null for files saved before storage keys
+    // were tracked, which only have an absolute `filePath`.
+    storageKey: text("storage_key"),
+    durationMs: int("duration_ms"),
+    // Size of the stored audio, for podcast enclosures. Null for files saved
+    // before sizes were tracked.
+    sizeBytes: int("size_bytes"),
+    // What the take was synthesized from, so takes can be compared.
+    voice: text("voice", { length: 255 }),
+    model: text("model", { length: 255 }),
+    settings: text("settings", { mode: "json" }).$type<
+      Partial<SpeechOptions>
+    >(),
+    // Complete synthesis profile, enough to reproduce the take.
+    profile: text("profile", { mode: "json" }).$type<SynthesisProfile>(),
+    // SHA-256 of the text sent to the provider, compared with the current
+    // page text to detect stale audio.
+    contentHash: text("content_hash", { length: 64 }),
+    // Word timings for read-along playback.
+    alignment: text("alignment", { mode: "json" }).$type<Alignment>(),
     createdAt: int("created_at", { mode: "timestamp" })
       .default(sql`(unixepoch())`)
       .notNull(),
   },
   (table) => ({
     pageIdIdx: index("audio_page_id_idx").on(table.pageId),
+    chapterIdIdx: index("audio_chapter_id_idx").on(table.chapterId),
   }),
 );
 
 export const audioFilesRelations = relations(audioFiles, ({ one }) => ({
-  page: one(pages, { fields: [audioFiles.pageId], references: [pages.id] }),
+  page: one(pages, {
+    fields: [audioFiles.pageId],
+    references: [pages.id],
+    relationName: "takes",
+  }),
+  chapter: one(chapters, {
+    fields: [audioFiles.chapterId],
+    references: [chapters.id],
+    relationName: "chapterTakes",
+  }),
+  // The generation job that created the take
+  job: one(generationJobs),
+}));
+
+export const audiobooks = createTable(
+  "audiobook",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    documentId: int("document_id")
+      .notNull()
+      .references(() => documents.id),
+    status: text("status", {
+      enum: ["pending", "processing", "completed", "failed"],
+    })
+      .default("pending")
+      .notNull(),
+    runId: text("run_id", { length: 255 }),
+    fileName: text("file_name", { length: 256 }),
+    storageKey: text("storage_key"),
+    durationMs: int("duration_ms"),
+    sizeBytes: int("size_bytes"),
+    error: text("error"),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+    updatedAt: int("updatedAt", { mode: "timestamp" }).$onUpdate(
+      () => new Date(),
+    ),
+  },
+  (table) => ({
+    documentIdIdx: index("audiobook_document_id_idx").on(table.documentId),
+  }),
+);
+
+export const audiobooksRelations = relations(audiobooks, ({ one }) => ({
+  document: one(documents, {
+    fields: [audiobooks.documentId],
+    references: [documents.id],
+  }),
+}));
+
+export const generationJobs = createTable(
+  "generation_job",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    // "document" jobs are parents of one "page" job per page.
+    kind: text("kind", { enum: ["page", "chapter", "document"] }).notNull(),
+    parentJobId: int("parent_job_id").references(
+      (): AnySQLiteColumn => generationJobs.id,
+    ),
+    userId: text("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    documentId: int("document_id")
+      .notNull()
+      .references(() => documents.id),
+    pageId: int("page_id").references(() => pages.id),
+    chapterId: int("chapter_id").references(() => chapters.id),
+    voice: text("voice", { length: 255 }).notNull(),
+    // Trigger.dev run id, set once the run has been triggered.
+    runId: text("run_id", { length: 255 }),
+    status: text("status", {
+      enum: ["queued", "running", "completed", "failed", "canceled"],
+    })
+      .default("queued")
+      .notNull(),
+    attempts: int("attempts").default(0).notNull(),
+    error: text("error"),
+    audioFileId: int("audio_file_id").references(() => audioFiles.id),
+    // Whether the audio was reused from the synthesis cache.
+    cacheHit: int("cache_hit", { mode: "boolean" }),
+    // Characters the job will send to the provider, counted against the
+    // quota while the job is unfinished.
+    characters: int("characters").default(0).notNull(),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+    startedAt: int("started_at", { mode: "timestamp" }),
+    finishedAt: int("finished_at", { mode: "timestamp" }),
+    updatedAt: int("updatedAt", { mode: "timestamp" }).$onUpdate(
+      () => new Date(),
+    ),
+  },
+  (table) => ({
+    userIdIdx: index("job_user_id_idx").on(table.userId),
+    documentIdIdx: index("job_document_id_idx").on(table.documentId),
+    parentJobIdIdx: index("job_parent_job_id_idx").on(table.parentJobId),
+    runIdIdx: index("job_run_id_idx").on(table.runId),
+  }),
+);
+
+export const generationJobsRelations = relations(
+  generationJobs,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [generationJobs.userId],
+      references: [users.id],
+    }),
+    document: one(documents, {
+      fields: [generationJobs.documentId],
+      references: [documents.id],
+    }),
+    page: one(pages, {
+      fields: [generationJobs.pageId],
+      references: [pages.id],
+    }),
+    chapter: one(chapters, {
+      fields: [generationJobs.chapterId],
+      references: [chapters.id],
+    }),
+    parent: one(generationJobs, {
+      fields: [generationJobs.parentJobId],
+      references: [generationJobs.id],
+      relationName: "parent",
+    }),
+    children: many(generationJobs, { relationName: "parent" }),
+    audioFile: one(audioFiles, {
+      fields: [generationJobs.audioFileId],
+      references: [audioFiles.id],
+    }),
+  }),
+);
+
+export const pageRevisions = createTable(
+  "page_revision",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    pageId: int("page_id")
+      .notNull()
+      .references(() => pages.id),
+    content: text("content").notNull(),
+    // "extracted" for the text produced by the parser, "edit" for user edits.
+    source: text("source", { enum: ["extracted", "edit"] }).notNull(),
+    // Null for extracted text.
+    createdById: text("created_by", { length: 255 }).references(() => users.id),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    pageIdIdx: index("page_revision_page_id_idx").on(table.pageId),
+  }),
+);
+
+export const pageRevisionsRelations = relations(pageRevisions, ({ one }) => ({
+  page: one(pages, {
+    fields: [pageRevisions.pageId],
+    references: [pages.id],
+  }),
+  creator: one(users, {
+    fields: [pageRevisions.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const usageEntries = createTable(
+  "usage_entry",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    userId: text("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    jobId: int("job_id").references(() => generationJobs.id, {
+      onDelete: "set null",
+    }),
+    documentId: int("document_id"),
+    provider: text("provider", { length: 255 }).notNull(),
+    // Characters sent to the provider; zero when the cache was used.
+    characters: int("characters").notNull(),
+    durationMs: int("duration_ms").default(0).notNull(),
+    cacheHit: int("cache_hit", { mode: "boolean" }).default(false).notNull(),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    userCreatedAtIdx: index("usage_user_created_at_idx").on(
+      table.userId,
+      table.createdAt,
+    ),
+  }),
+);
+
+export const usageEntriesRelations = relations(usageEntries, ({ one }) => ({
+  user: one(users, { fields: [usageEntries.userId], references: [users.id] }),
+  job: one(generationJobs, {
+    fields: [usageEntries.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const shareLinks = createTable(
+  "share_link",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    documentId: int("document_id")
+      .notNull()
+      .references(() => documents.id),
+    // Random, URL-safe secret that identifies the link.
+    token: text("token", { length: 64 }).notNull().unique(),
+    // scrypt hash; links without one are open to anyone with the URL.
+    passwordHash: text("password_hash"),
+    expiresAt: int("expires_at", { mode: "timestamp" }),
+    revokedAt: int("revoked_at", { mode: "timestamp" }),
+    accessCount: int("access_count").default(0).notNull(),
+    lastAccessedAt: int("last_accessed_at", { mode: "timestamp" }),
+    createdById: text("created_by", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    documentIdIdx: index("share_link_document_id_idx").on(table.documentId),
+  }),
+);
+
+export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
+  document: one(documents, {
+    fields: [shareLinks.documentId],
+    references: [documents.id],
+  }),
+  creator: one(users, {
+    fields: [shareLinks.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const listeningProgress = createTable(
+  "listening_progress",
+  {
+    id: int("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    userId: text("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    documentId: int("document_id")
+      .notNull()
+      .references(() => documents.id),
+    // Page being listened to; null for chapter takes.
+    pageId: int("page_id").references(() => pages.id),
+    // Take the position belongs to, so it is only restored on the same audio.
+    audioFileId: int("audio_file_id").references(() => audioFiles.id),
+    positionMs: int("position_ms").notNull(),
+    updatedAt: int("updated_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    // One resume point per user and document, shared across devices
+    userDocumentIdx: uniqueIndex("listening_progress_user_document_idx").on(
+      table.userId,
+      table.documentId,
+    ),
+  }),
+);
+
+export const listeningProgressRelations = relations(
+  listeningProgress,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [listeningProgress.userId],
+      references: [users.id],
+    }),
+    document: one(documents, {
+      fields: [listeningProgress.documentId],
+      references: [documents.id],
+    }),
+    page: one(pages, {
+      fields: [listeningProgress.pageId],
+      references: [pages.id],
+    }),
+    audioFile: one(audioFiles, {
+      fields: [listeningProgress.audioFileId],
+      references: [audioFiles.id],
+    }),
+  }),
+);
+
+export const uploads = createTable(
+  "upload",
+  {
+    // UploadThing file key, recorded when the upload completes so documents
+    // can only be created from the caller's own files.
+    key: text("key", { length: 255 }).primaryKey(),
+    userId: text("user_id", { length: 255 })
+      .notNull()
+      .references(() => users.id),
+    url: text("url").notNull(),
+    createdAt: int("created_at", { mode: "timestamp" })
+      .default(sql`(unixepoch())`)
+      .notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("upload_user_id_idx").on(table.userId),
+  }),
+);
+
+export const uploadsRelations = relations(uploads, ({ one }) => ({
+  user: one(users, { fields: [uploads.userId], references: [users.id] }),
 }));
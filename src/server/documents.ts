@@ -0,0 +1,157 @@
+import { eq, inArray } from "drizzle-orm";
+import { UTApi } from "uploadthing/server";
+
+import { env } from "~/env";
+import { db } from "~/server/db";
+import {
+  audiobooks,
+  chapters,
+  documents,
+  generationJobs,
+  listeningProgress,
+  pageRevisions,
+  pages,
+  shareLinks,
+  uploads,
+} from "~/server/db/schema";
+import { type ParsedPage } from "~/server/parsers";
+import { syncChapters } from "~/server/chapters";
+import { getStorage } from "~/server/storage";
+import { deleteTakes } from "~/server/takes";
+
+const utapi = new UTApi({ token: env.UPLOADTHING_TOKEN });
+
+/**
+ * Save a new document and its extracted pages.
+ */
+export async function createDocument(
+  values: typeof documents.$inferInsert,
+  parsedPages: ParsedPage[],
+) {
+  // Save document
+  const [doc] = await db.insert(documents).values(values).returning();
+
+  if (!doc) {
+    throw new Error("Failed to create document");
+  }
+
+  // Process each page
+  const documentPages = await Promise.all(
+    parsedPages.map(async (page, index) => {
+      try {
+        // Save page
+        const [savedPage] = await db
+          .insert(pages)
+          .values({
+            documentId: doc.id,
+            pageNumber: page.number,
+            content: page.content,
+          })
+          .returning();
+
+        if (!savedPage) {
+          throw new Error("Failed to save page");
+        }
+
+        return savedPage;
+      } catch (error) {
+        console.error(`Error processing page ${index + 1}:`, error);
+        throw new Error(
+          `Failed to process page ${index + 1}: ${(error as Error).message}`,
+        );
+      }
+    }),
+  );
+
+  // Group the pages into chapters
+  await syncChapters(doc.id);
+
+  return {
+    documentId: doc.id,
+    pages: documentPages,
+  };
+}
+
+/**
+ * Date before which trashed documents are permanently deleted.
+ */
+export function getTrashCutoff(now = new Date()) {
+  return new Date(now.getTime() - env.TRASH_RETENTION_DAYS * 86_400_000);
+}
+
+/**
+ * Permanently delete a document: its stored audio and audiobooks, the source
+ * upload on UploadThing, and every database row that belongs to it.
+ */
+export async function purgeDocument(documentId: number) {
+  const document = await db.query.documents.findFirst({
+    where: eq(documents.id, documentId),
+    with: {
+      pages: {
+        with: {
+          audioFiles: true,
+        },
+      },
+      chapters: {
+        with: {
+          audioFiles: true,
+        },
+      },
+      audiobooks: true,
+    },
+  });
+
+  if (!document) {
+    throw new Error("Document not found");
+  }
+
+  const associatedPagesId = document.pages.map((page) => page.id);
+
+  // Delete the takes of pages and chapters with their stored audio.
+  const deletedAudio = await deleteTakes([
+    ...document.pages.flatMap((page) => page.audioFiles),
+    ...document.chapters.flatMap((chapter) => chapter.audioFiles),
+  ]);
+
+  // Remove the stored audiobooks.
+  const storage = getStorage();
+  const audiobookKeys = document.audiobooks.flatMap((audiobook) =>
+    audiobook.storageKey ? [audiobook.storageKey] : [],
+  );
+  await Promise.all(audiobookKeys.map((key) => storage.delete(key)));
+
+  if (document.sourceFileKey) {
+    await utapi.deleteFiles(document.sourceFileKey);
+    await db.delete(uploads).where(eq(uploads.key, document.sourceFileKey));
+  }
+
+  // Delete generation history of the document.
+  await db
+    .delete(generationJobs)
+    .where(eq(generationJobs.documentId, document.id));
+
+  // Delete assembled audiobooks of the document and links sharing them.
+  await db.delete(shareLinks).where(eq(shareLinks.documentId, document.id));
+  await db.delete(audiobooks).where(eq(audiobooks.documentId, document.id));
+
+  // Delete the edit history of the pages.
+  if (associatedPagesId.length > 0) {
+    await db
+      .delete(pageRevisions)
+      .where(inArray(pageRevisions.pageId, associatedPagesId));
+  }
+
+  // Delete listening positions in the document.
+  await db
+    .delete(listeningProgress)
+    .where(eq(listeningProgress.documentId, document.id));
+
+  // Delete chapters and pages associated with the document.
+  await db.delete(chapters).where(eq(chapters.documentId, document.id));
+  await db.delete(pages).where(eq(pages.documentId, document.id));
+
+  // Delete the document itself.
+  await db.delete(documents).where(eq(documents.id, document.id));
+
+  return { storageObjects: deletedAudio + audiobookKeys.length };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+vi.mock("~/server/db", () => ({ db: {} }));
+
+import { renderPodcastFeed, type Feed } from "~/server/feed";
+
+const feed: Feed = {
+  title: "Rivers & Lakes",
+  description: "Rivers & Lakes, read by Audiopintar",
+  author: "Reader",
+  link: "/",
+  image: "/android-chrome-512x512.png",
+  episodes: [
+    {
+      guid: "audio-file-1",
+      title: "Rivers",
+      url: "/api/audio/1?token=abc",
+      fileName: "1.mp3",
+      durationMs: 61_000,
+      sizeBytes: 12_345,
+      publishedAt: new Date("2024-01-01T00:00:00Z"),
+    },
+    {
+      guid: "audio-file-2",
+      title: "Lakes",
+      url: "/api/audio/2?token=abc",
+      fileName: "2.wav",
+      durationMs: null,
+      sizeBytes: null,
+      publishedAt: new Date("2024-01-02T00:00:00Z"),
+    },
+  ],
+};
+
+describe("renderPodcastFeed", () => {
+  const xml = renderPodcastFeed(feed, "https://example.com");
+
+  it("adds channel artwork resolved against the origin", () => {
+    expect(xml).toContain(
+      '<itunes:image href="https://example.com/android-chrome-512x512.png"/>',
+    );
+  });
+
+  it("emits enclosure sizes, falling back to 0 when unknown", () => {
+    expect(xml).toContain(
+      '<enclosure url="https://example.com/api/audio/1?token=abc" length="12345" type="audio/mpeg"/>',
+    );
+    expect(xml).toContain(
+      '<enclosure url="https://example.com/api/audio/2?token=abc" length="0" type="audio/wav"/>',
+    );
+  });
+
+  it("escapes text and formats durations", () => {
+    expect(xml).toContain("<title>Rivers &amp; Lakes</title>");
+    expect(xml).toContain("<itunes:duration>00:01:01</itunes:duration>");
+  });
+});
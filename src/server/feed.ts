@@ -0,0 +1,230 @@
+import { randomBytes } from "crypto";
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import {
+  audiobooks,
+  chapters,
+  documents,
+  pages,
+  users,
+} from "~/server/db/schema";
+import { getAudiobookUrl, getAudioFileUrl } from "~/server/audio-access";
+
+// App icon from `public/`, used as the podcast artwork
+const FEED_IMAGE = "/android-chrome-512x512.png";
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+};
+
+export type FeedEpisode = {
+  guid: string;
+  title: string;
+  description?: string;
+  url: string;
+  fileName: string | null;
+  durationMs: number | null;
+  sizeBytes: number | null;
+  publishedAt: Date;
+};
+
+export type Feed = {
+  title: string;
+  description: string;
+  author: string;
+  link: string;
+  image: string;
+  episodes: FeedEpisode[];
+};
+
+/**
+ * Random token for a user's feed URLs.
+ */
+export function createFeedToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+export async function getFeedUser(token: string) {
+  return db.query.users.findFirst({
+    where: eq(users.feedToken, token),
+    columns: { id: true, name: true, feedToken: true },
+  });
+}
+
+type FeedUser = NonNullable<Awaited<ReturnType<typeof getFeedUser>>>;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function formatDuration(durationMs: number) {
+  const seconds = Math.round(durationMs / 1000);
+  return [
+    Math.floor(seconds / 3600),
+    Math.floor(seconds / 60) % 60,
+    seconds % 60,
+  ]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * Render a feed as podcast RSS 2.0 with iTunes tags. Audio URLs are relative
+ * to the app, so they are resolved against `origin`.
+ */
+export function renderPodcastFeed(feed: Feed, origin: string) {
+  const items = feed.episodes.map((episode, index) => {
+    const extension = episode.fileName?.split(".").pop() ?? "mp3";
+
+    return [
+      "<item>",
+      `<title>${escapeXml(episode.title)}</title>`,
+      `<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+      episode.description &&
+        `<description>${escapeXml(episode.description)}</description>`,
+      `<pubDate>${episode.publishedAt.toUTCString()}</pubDate>`,
+      // Files saved before sizes were tracked have an unknown length
+      `<enclosure url="${escapeXml(new URL(episode.url, origin).toString())}" length="${episode.sizeBytes ?? 0}" type="${CONTENT_TYPES[extension] ?? "audio/mpeg"}"/>`,
+      episode.durationMs !== null &&
+        `<itunes:duration>${formatDuration(episode.durationMs)}</itunes:duration>`,
+      `<itunes:episode>${index + 1}</itunes:episode>`,
+      "<itunes:explicit>false</itunes:explicit>",
+      "</item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">',
+    "<channel>",
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(new URL(feed.link, origin).toString())}</link>`,
+    `<description>${escapeXml(feed.description)}</description>`,
+    "<language>en</language>",
+    `<itunes:author>${escapeXml(feed.author)}</itunes:author>`,
+    `<itunes:image href="${escapeXml(new URL(feed.image, origin).toString())}"/>`,
+    '<itunes:category text="Education"/>',
+    "<itunes:explicit>false</itunes:explicit>",
+    // Private feeds must stay out of podcast directories
+    "<itunes:block>Yes</itunes:block>",
+    ...items,
+    "</channel>",
+    "</rss>",
+  ].join("\n");
+}
+
+/**
+ * Feed with the latest audiobook of every document of a user.
+ */
+export async function getUserFeed(user: FeedUser): Promise<Feed> {
+  const userDocuments = await db.query.documents.findMany({
+    where: and(eq(documents.createdById, user.id), isNull(documents.deletedAt)),
+    with: {
+      audiobooks: {
+        where: eq(audiobooks.status, "completed"),
+        orderBy: [desc(audiobooks.createdAt)],
+        limit: 1,
+      },
+    },
+    orderBy: [asc(documents.createdAt)],
+  });
+
+  return {
+    title: "Audiopintar",
+    description: `Audiobooks of ${user.name ?? "an Audiopintar user"}`,
+    author: user.name ?? "Audiopintar",
+    link: "/",
+    image: FEED_IMAGE,
+    episodes: userDocuments.flatMap((document) => {
+      const audiobook = document.audiobooks[0];
+      if (!audiobook?.storageKey) return [];
+
+      return [
+        {
+          guid: `audiobook-${audiobook.id}`,
+          title: document.name,
+          url: getAudiobookUrl(audiobook.id, user.feedToken ?? undefined),
+          fileName: audiobook.fileName,
+          durationMs: audiobook.durationMs,
+          sizeBytes: audiobook.sizeBytes,
+          publishedAt: audiobook.createdAt,
+        },
+      ];
+    }),
+  };
+}
+
+/**
+ * Feed of a single document, with an episode per chapter, or per page when
+ * no chapter has audio yet. Episodes use the active take.
+ */
+export async function getDocumentFeed(
+  user: FeedUser,
+  documentId: number,
+): Promise<Feed | null> {
+  const document = await db.query.documents.findFirst({
+    where: and(
+      eq(documents.id, documentId),
+      eq(documents.createdById, user.id),
+      isNull(documents.deletedAt),
+    ),
+    with: {
+      chapters: {
+        where: isNull(chapters.detachedAt),
+        orderBy: [asc(chapters.number)],
+        with: { activeAudioFile: true },
+      },
+      pages: {
+        orderBy: [asc(pages.pageNumber)],
+        with: { activeAudioFile: true },
+      },
+    },
+  });
+
+  if (!document) return null;
+
+  const chapterEpisodes = document.chapters.flatMap((chapter) =>
+    chapter.activeAudioFile
+      ? [{ title: chapter.title, audioFile: chapter.activeAudioFile }]
+      : [],
+  );
+  const episodes =
+    chapterEpisodes.length > 0
+      ? chapterEpisodes
+      : document.pages.flatMap((page) =>
+          page.activeAudioFile
+            ? [
+                {
+                  title: `Page ${page.pageNumber}`,
+                  audioFile: page.activeAudioFile,
+                },
+              ]
+            : [],
+        );
+
+  return {
+    title: document.name,
+    description: `${document.name}, read by Audiopintar`,
+    author: user.name ?? "Audiopintar",
+    link: "/",
+    image: FEED_IMAGE,
+    episodes: episodes.map(({ title, audioFile }) => ({
+      guid: `audio-file-${audioFile.id}`,
+      title,
+      url: getAudioFileUrl(audioFile.id, user.feedToken ?? undefined),
+      fileName: audioFile.fileName,
+      durationMs: audioFile.durationMs,
+      sizeBytes: audioFile.sizeBytes,
+      publishedAt: audioFile.createdAt,
+    })),
+  };
+}
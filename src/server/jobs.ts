@@ -0,0 +1,126 @@
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { generationJobs } from "~/server/db/schema";
+
+type Job = typeof generationJobs.$inferSelect;
+type JobStatus = Job["status"];
+
+const UNFINISHED_STATUSES: JobStatus[] = ["queued", "running"];
+
+/**
+ * Mark a generation job as started by the given Trigger.dev run. Called at the
+ * start of every attempt, so `attempts` counts retries. Returns false when the
+ * job was canceled (or otherwise finished) before the run started, in which
+ * case the run must not do any work.
+ */
+export async function markJobRunning(jobId: number, runId: string) {
+  const updated = await db
+    .update(generationJobs)
+    .set({
+      status: "running",
+      runId,
+      startedAt: new Date(),
+      error: null,
+      attempts: sql`${generationJobs.attempts} + 1`,
+    })
+    .where(
+      and(
+        eq(generationJobs.id, jobId),
+        // Retries of the same run find the job still running
+        or(
+          eq(generationJobs.status, "queued"),
+          and(
+            eq(generationJobs.status, "running"),
+            eq(generationJobs.runId, runId),
+          ),
+        ),
+      ),
+    )
+    .returning({ id: generationJobs.id });
+
+  return updated.length > 0;
+}
+
+// Completing or failing never overwrites a job that was canceled meanwhile.
+export async function markJobCompleted(
+  jobId: number,
+  changes: { audioFileId?: number; cacheHit?: boolean } = {},
+) {
+  await db
+    .update(generationJobs)
+    .set({ ...changes, status: "completed", finishedAt: new Date() })
+    .where(
+      and(
+        eq(generationJobs.id, jobId),
+        inArray(generationJobs.status, UNFINISHED_STATUSES),
+      ),
+    );
+}
+
+export async function markJobFailed(jobId: number, error: unknown) {
+  await db
+    .update(generationJobs)
+    .set({
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(generationJobs.id, jobId),
+        inArray(generationJobs.status, UNFINISHED_STATUSES),
+      ),
+    );
+}
+
+/**
+ * Mark the given jobs as canceled, leaving jobs that already finished as they
+ * are.
+ */
+export async function markJobsCanceled(jobIds: number[]) {
+  if (jobIds.length === 0) return;
+
+  await db
+    .update(generationJobs)
+    .set({ status: "canceled", finishedAt: new Date() })
+    .where(
+      and(
+        inArray(generationJobs.id, jobIds),
+        inArray(generationJobs.status, UNFINISHED_STATUSES),
+      ),
+    );
+}
+
+export function isJobFinished(status: JobStatus) {
+  return !UNFINISHED_STATUSES.includes(status);
+}
+
+/**
+ * Aggregate progress of a job. Page jobs count as a single unit; document jobs
+ * are summarized from their page jobs.
+ */
+export function getJobProgress(job: Job, children: Job[]) {
+  const units = job.kind === "document" ? children : [job];
+
+  return {
+    total: units.length,
+    completed: units.filter((unit) => unit.status === "completed").length,
+    failed: units.filter((unit) => unit.status === "failed").length,
+    canceled: units.filter((unit) => unit.status === "canceled").length,
+    running: units.filter((unit) => unit.status === "running").length,
+  };
+}
+
+/**
+ * A job as returned to clients, with its derived state.
+ */
+export function toJobSummary(job: Job, children: Job[] = []) {
+  return {
+    ...job,
+    isFinished: isJobFinished(job.status),
+    progress: getJobProgress(job, children),
+  };
+}
+
+export type JobSummary = ReturnType<typeof toJobSummary>;
@@ -0,0 +1,40 @@
+import { readFile } from "fs/promises";
+import { describe, expect, it } from "vitest";
+
+import { extractArticle } from "./article";
+
+function readFixture(name: string) {
+  return readFile(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+describe("extractArticle", () => {
+  it("extracts the title, byline and article text", async () => {
+    const article = extractArticle(await readFixture("article.html"));
+
+    expect(article.title).toBe("How Rivers Shape Valleys");
+    expect(article.byline).toBe("Dewi Lestari");
+    expect(article.siteName).toBe("Field Notes");
+    expect(article.content).toContain("Rivers carve valleys slowly");
+    expect(article.content).toContain("## Floodplains");
+  });
+
+  it("leaves out navigation, sidebars, comments and scripts", async () => {
+    const { content } = extractArticle(await readFixture("article.html"));
+
+    expect(content).not.toContain("Archive");
+    expect(content).not.toContain("newsletter");
+    expect(content).not.toContain("Great article");
+    expect(content).not.toContain("Copyright");
+    expect(content).not.toContain("analytics");
+  });
+
+  it("falls back to the page title and the whole body", async () => {
+    const article = extractArticle(await readFixture("untitled.html"));
+
+    expect(article.title).toBe("Plain page");
+    expect(article.byline).toBeNull();
+    expect(article.content).toBe(
+      "A short page without article markup is read as a whole.",
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { parse, type HTMLElement } from "node-html-parser";
+
+import { htmlToMarkdown } from "./html";
+
+// Containers that never hold the article itself.
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|menu|modal|nav|pager|popup|related|remark|replies|share|shopping|sidebar|social|sponsor|subscribe|tags|tool|widget/i;
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINTS =
+  /advert|ad-|byline|comment|footer|footnote|masthead|meta|outbrain|promo|related|scroll|share|sidebar|skyscraper|sponsor|widget/i;
+
+// Minimum amount of text a paragraph needs to count towards its container.
+const MIN_PARAGRAPH_LENGTH = 25;
+
+export type Article = {
+  title: string;
+  byline: string | null;
+  siteName: string | null;
+  // Main content as markdown.
+  content: string;
+};
+
+function getMeta(root: HTMLElement, ...names: string[]) {
+  for (const name of names) {
+    const content = root
+      .querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+      ?.getAttribute("content")
+      ?.trim();
+    if (content) return content;
+  }
+  return null;
+}
+
+function getClassWeight(element: HTMLElement) {
+  const hints = `${element.getAttribute("class") ?? ""} ${element.id}`;
+  let weight = 0;
+  if (POSITIVE_HINTS.test(hints)) weight += 25;
+  if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+  return weight;
+}
+
+function getLinkDensity(element: HTMLElement) {
+  const textLength = element.text.length;
+  if (textLength === 0) return 0;
+
+  const linkLength = element
+    .querySelectorAll("a")
+    .reduce((total, link) => total + link.text.length, 0);
+  return linkLength / textLength;
+}
+
+/**
+ * Pick the element holding the main content, in the spirit of Mozilla's
+ * Readability: every paragraph scores its parent (and half of that its
+ * grandparent) by length and commas, containers are weighted by class and id
+ * hints, and link-heavy containers are penalized.
+ */
+function findContentElement(body: HTMLElement) {
+  // Drop boilerplate before scoring, so it cannot win or leak into the output
+  for (const element of body.querySelectorAll(
+    "script, style, noscript, iframe, form, nav, aside, footer, header, svg",
+  )) {
+    element.remove();
+  }
+  for (const element of body.querySelectorAll("*")) {
+    const hints = `${element.getAttribute("class") ?? ""} ${element.id}`;
+    if (
+      UNLIKELY_CANDIDATES.test(hints) &&
+      !POSITIVE_HINTS.test(hints) &&
+      element.tagName !== "BODY" &&
+      element.tagName !== "ARTICLE"
+    ) {
+      element.remove();
+    }
+  }
+
+  const scores = new Map<HTMLElement, number>();
+  const addScore = (element: HTMLElement | null, score: number) => {
+    if (!element) return;
+    scores.set(
+      element,
+      (scores.get(element) ?? getClassWeight(element)) + score,
+    );
+  };
+
+  for (const paragraph of body.querySelectorAll("p, pre, td")) {
+    const text = paragraph.text.trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const score =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(paragraph.parentNode, score);
+    addScore(paragraph.parentNode?.parentNode ?? null, score / 2);
+  }
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  // Short pages without clear paragraphs are read whole
+  return best ?? body;
+}
+
+/**
+ * Extract the title, byline and main content of a web article.
+ */
+export function extractArticle(html: string): Article {
+  const root = parse(html, { comment: false });
+
+  const title =
+    getMeta(root, "og:title", "twitter:title") ??
+    root.querySelector("title")?.text.trim() ??
+    root.querySelector("h1")?.text.trim() ??
+    "Untitled article";
+
+  const body = root.querySelector("body") ?? root;
+  const content = htmlToMarkdown(findContentElement(body).toString());
+
+  return {
+    title,
+    byline: getMeta(root, "author", "article:author"),
+    siteName: getMeta(root, "og:site_name"),
+    content,
+  };
+}
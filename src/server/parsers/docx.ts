@@ -0,0 +1,20 @@
+import mammoth from "mammoth";
+
+import { htmlToMarkdown } from "./html";
+import { paginate } from "./paginate";
+import { type DocumentParser } from "./types";
+
+/**
+ * Word document extractor. The document is converted to HTML with mammoth,
+ * which keeps headings, lists and tables, and split into pages of similar
+ * length since DOCX files carry no reliable page breaks.
+ */
+export function createDocxParser(): DocumentParser {
+  return {
+    name: "docx",
+    async parse(buffer) {
+      const { value: html } = await mammoth.convertToHtml({ buffer });
+      return { pages: paginate(htmlToMarkdown(html)) };
+    },
+  };
+}
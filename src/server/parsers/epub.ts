@@ -0,0 +1,81 @@
+import JSZip from "jszip";
+import { parse } from "node-html-parser";
+
+import { htmlToMarkdown } from "./html";
+import { type DocumentParser } from "./types";
+
+async function readText(zip: JSZip, path: string) {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing ${path} in EPUB`);
+  }
+  return file.async("string");
+}
+
+/**
+ * Resolve an href from the package document against the package's folder.
+ */
+function resolvePath(base: string, href: string) {
+  const parts = base.split("/").slice(0, -1);
+  for (const part of decodeURIComponent(href.split("#")[0]!).split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+/**
+ * EPUB extractor. Every document in the reading order (the spine) becomes a
+ * page, so pages follow the chapters of the book.
+ */
+export function createEpubParser(): DocumentParser {
+  return {
+    name: "epub",
+    async parse(buffer) {
+      const zip = await JSZip.loadAsync(buffer);
+
+      // The container points at the package document listing the contents
+      const container = parse(await readText(zip, "META-INF/container.xml"));
+      const packagePath = container
+        .querySelector("rootfile")
+        ?.getAttribute("full-path");
+      if (!packagePath) {
+        throw new Error("EPUB has no package document");
+      }
+
+      const opf = parse(await readText(zip, packagePath));
+      const manifest = new Map(
+        opf
+          .querySelectorAll("manifest item")
+          .map((item) => [item.getAttribute("id"), item] as const),
+      );
+
+      const chapters = [];
+      for (const itemref of opf.querySelectorAll("spine itemref")) {
+        // Skip covers, notes and other content outside the reading flow
+        if (itemref.getAttribute("linear") === "no") continue;
+
+        const item = manifest.get(itemref.getAttribute("idref"));
+        const href = item?.getAttribute("href");
+        if (!href || !item?.getAttribute("media-type")?.includes("html")) {
+          continue;
+        }
+
+        const html = await readText(zip, resolvePath(packagePath, href));
+        const content = htmlToMarkdown(html);
+        if (content) chapters.push(content);
+      }
+
+      if (chapters.length === 0) {
+        throw new Error("EPUB has no readable chapters");
+      }
+
+      return {
+        pages: chapters.map((content, index) => ({
+          number: index + 1,
+          content,
+        })),
+      };
+    },
+  };
+}
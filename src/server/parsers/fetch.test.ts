@@ -0,0 +1,142 @@
+import { readFile } from "fs/promises";
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { fetchHtml } from "./fetch";
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  json: "application/json",
+};
+
+let server: Server;
+let origin: string;
+let host: string;
+let requests: string[] = [];
+
+// Serves the fixtures, plus /redirect/<n> which redirects n times before
+// landing on the article and /redirect-to?url=<url> which redirects anywhere.
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", origin);
+    requests.push(url.pathname);
+
+    const redirect = /^\/redirect\/(\d+)$/.exec(url.pathname);
+    if (redirect) {
+      const remaining = Number(redirect[1]);
+      res.writeHead(302, {
+        Location:
+          remaining > 1 ? `/redirect/${remaining - 1}` : "/article.html",
+      });
+      res.end();
+      return;
+    }
+
+    if (url.pathname === "/redirect-to") {
+      res.writeHead(302, { Location: url.searchParams.get("url") ?? "/" });
+      res.end();
+      return;
+    }
+
+    const name = url.pathname.slice(1);
+    readFile(new URL(`./fixtures/${name}`, import.meta.url)).then(
+      (body) => {
+        res.writeHead(200, {
+          "Content-Type": CONTENT_TYPES[name.split(".").pop()!] ?? "text/plain",
+        });
+        res.end(body);
+      },
+      () => {
+        res.writeHead(404);
+        res.end();
+      },
+    );
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  host = `127.0.0.1:${port}`;
+  origin = `http://${host}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function fetchFixture(path: string) {
+  requests = [];
+  return fetchHtml(`${origin}${path}`, { allowedHosts: [host] });
+}
+
+describe("fetchHtml", () => {
+  it("downloads an HTML page", async () => {
+    const { html, url } = await fetchFixture("/article.html");
+
+    expect(html).toContain("How Rivers Shape Valleys");
+    expect(url).toBe(`${origin}/article.html`);
+  });
+
+  it("follows redirects and reports the final URL", async () => {
+    const { url } = await fetchFixture("/redirect/5");
+
+    expect(url).toBe(`${origin}/article.html`);
+    expect(requests).toHaveLength(6);
+  });
+
+  it("stops after too many redirects", async () => {
+    await expect(fetchFixture("/redirect/6")).rejects.toThrow(
+      "Too many redirects",
+    );
+    expect(requests).toHaveLength(6);
+  });
+
+  it("rejects pages that are not HTML", async () => {
+    await expect(fetchFixture("/data.json")).rejects.toThrow(
+      "Expected an HTML page",
+    );
+  });
+
+  it("rejects error responses", async () => {
+    await expect(fetchFixture("/missing.html")).rejects.toThrow(
+      "Page responded with 404",
+    );
+  });
+
+  it.each([
+    "http://127.0.0.1/",
+    "http://localhost/",
+    "http://10.1.2.3/",
+    "http://192.168.1.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+  ])("rejects the private address %s", async (url) => {
+    await expect(fetchHtml(url)).rejects.toThrow(
+      "URL points to a private network address",
+    );
+  });
+
+  it("rejects the local server unless it is allowed", async () => {
+    requests = [];
+    await expect(fetchHtml(`${origin}/article.html`)).rejects.toThrow(
+      "URL points to a private network address",
+    );
+    expect(requests).toEqual([]);
+  });
+
+  it("checks every redirect hop", async () => {
+    const target = encodeURIComponent("http://169.254.169.254/latest/");
+
+    await expect(fetchFixture(`/redirect-to?url=${target}`)).rejects.toThrow(
+      "URL points to a private network address",
+    );
+    expect(requests).toEqual(["/redirect-to"]);
+  });
+
+  it("only supports http and https", async () => {
+    await expect(fetchHtml("file:///etc/passwd")).rejects.toThrow(
+      "Only http and https URLs are supported",
+    );
+  });
+});
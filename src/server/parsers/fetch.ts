@@ -0,0 +1,92 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Largest page that is downloaded.
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private and link-local ranges the server must not be tricked
+// into requesting.
+const privateNetworks = new BlockList();
+privateNetworks.addSubnet("0.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("10.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("100.64.0.0", 10, "ipv4");
+privateNetworks.addSubnet("127.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("169.254.0.0", 16, "ipv4");
+privateNetworks.addSubnet("172.16.0.0", 12, "ipv4");
+privateNetworks.addSubnet("192.168.0.0", 16, "ipv4");
+privateNetworks.addAddress("::1", "ipv6");
+privateNetworks.addSubnet("fc00::", 7, "ipv6");
+privateNetworks.addSubnet("fe80::", 10, "ipv6");
+
+type FetchOptions = {
+  // Hosts exempt from the private address check, e.g. a local fixture server.
+  allowedHosts?: string[];
+};
+
+async function assertPublicHost(url: URL, { allowedHosts = [] }: FetchOptions) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https URLs are supported");
+  }
+
+  if (allowedHosts.includes(url.host)) return;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+
+  for (const { address, family } of addresses) {
+    if (privateNetworks.check(address, family === 6 ? "ipv6" : "ipv4")) {
+      throw new Error("URL points to a private network address");
+    }
+  }
+}
+
+/**
+ * Download an HTML page. Redirects are followed by hand so every hop is
+ * checked against private addresses, and the body size is capped.
+ */
+export async function fetchHtml(url: string, options: FetchOptions = {}) {
+  let current = new URL(url);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicHost(current, options);
+
+    const response = await fetch(current, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "text/html,application/xhtml+xml" },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Page responded with ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!/html/i.test(contentType)) {
+      throw new Error(`Expected an HTML page, got ${contentType || "unknown"}`);
+    }
+
+    const contentLength = Number(response.headers.get("content-length"));
+    if (contentLength > MAX_PAGE_BYTES) {
+      throw new Error("Page is too large");
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    if (body.length > MAX_PAGE_BYTES) {
+      throw new Error("Page is too large");
+    }
+
+    return { html: body.toString("utf8"), url: current.toString() };
+  }
+
+  throw new Error("Too many redirects");
+}
@@ -0,0 +1,156 @@
+import { HTMLElement, parse, TextNode, type Node } from "node-html-parser";
+
+import { paginate } from "./paginate";
+import { type DocumentParser } from "./types";
+
+// Elements that start a new paragraph.
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "header",
+  "hr",
+  "html",
+  "main",
+  "p",
+  "section",
+]);
+
+// Elements whose content is never read aloud.
+const SKIP_TAGS = new Set([
+  "head",
+  "iframe",
+  "nav",
+  "noscript",
+  "object",
+  "script",
+  "style",
+  "svg",
+  "template",
+]);
+
+function inlineText(node: Node) {
+  return node.text.replace(/\s+/g, " ").trim();
+}
+
+function renderList(list: HTMLElement, ordered: boolean) {
+  return list.childNodes
+    .filter(
+      (child): child is HTMLElement =>
+        child instanceof HTMLElement && child.tagName === "LI",
+    )
+    .map(
+      (item, index) => `${ordered ? `${index + 1}.` : "-"} ${inlineText(item)}`,
+    )
+    .join("\n");
+}
+
+function renderTable(table: HTMLElement) {
+  const rows = table
+    .querySelectorAll("tr")
+    .map((row) =>
+      row.childNodes
+        .filter(
+          (cell): cell is HTMLElement =>
+            cell instanceof HTMLElement &&
+            (cell.tagName === "TD" || cell.tagName === "TH"),
+        )
+        .map((cell) => inlineText(cell).replace(/\|/g, "\\|")),
+    );
+
+  const lines = rows
+    .filter((cells) => cells.length > 0)
+    .map((cells) => `| ${cells.join(" | ")} |`);
+  if (lines.length === 0) return "";
+
+  // The first row is used as the header row
+  const separator = `|${" --- |".repeat(rows[0]!.length)}`;
+  return [lines[0], separator, ...lines.slice(1)].join("\n");
+}
+
+/**
+ * Convert HTML into the markdown subset the rest of the pipeline understands:
+ * paragraphs, headings, lists and tables.
+ */
+export function htmlToMarkdown(html: string) {
+  const root = parse(html, { comment: false });
+  const blocks: string[] = [];
+  let inline = "";
+
+  function flush() {
+    const text = inline.replace(/\s+/g, " ").trim();
+    if (text) blocks.push(text);
+    inline = "";
+  }
+
+  function walk(node: Node) {
+    if (node instanceof TextNode) {
+      inline += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    // The root element has no tag name
+    const tag = node.tagName?.toLowerCase() ?? "";
+    if (SKIP_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = inlineText(node);
+      if (text) blocks.push(`${"#".repeat(Number(heading[1]))} ${text}`);
+      return;
+    }
+
+    switch (tag) {
+      case "br":
+        flush();
+        return;
+      case "ul":
+      case "ol":
+        flush();
+        blocks.push(renderList(node, tag === "ol"));
+        return;
+      case "table":
+        flush();
+        blocks.push(renderTable(node));
+        return;
+      case "pre":
+        flush();
+        blocks.push(node.text.trim());
+        return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  }
+
+  walk(root);
+  flush();
+
+  return blocks.filter(Boolean).join("\n\n");
+}
+
+/**
+ * HTML page extractor. Web pages have no page breaks, so the text is split
+ * into pages of similar length.
+ */
+export function createHtmlParser(): DocumentParser {
+  return {
+    name: "html",
+    async parse(buffer) {
+      return { pages: paginate(htmlToMarkdown(buffer.toString("utf8"))) };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { env } from "~/env";
+
+import { createDocxParser } from "./docx";
+import { createEpubParser } from "./epub";
+import { createHtmlParser } from "./html";
+import { createLlamaParseParser } from "./llamaparse";
+import { createPdfJsParser } from "./pdfjs";
+import { createMarkdownParser, createTextParser } from "./text";
+import {
+  type DocumentFormat,
+  type DocumentParser,
+  type ParsedDocument,
+} from "./types";
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  epub: "epub",
+  docx: "docx",
+  txt: "txt",
+  text: "txt",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  md: "md",
+  markdown: "md",
+};
+
+/**
+ * Detect the format of an upload from its file name, or null when the format
+ * is not supported.
+ */
+export function getDocumentFormat(fileName: string): DocumentFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSIONS[extension] ?? null;
+}
+
+export type * from "./types";
+
+/**
+ * Get a document parser by name.
+ */
+export function getDocumentParser(
+  name: "llamaparse" | "pdfjs" = env.DOCUMENT_PARSER,
+): DocumentParser {
+  switch (name) {
+    case "pdfjs":
+      return createPdfJsParser();
+    case "llamaparse":
+      if (!env.LLAMA_CLOUD_API_KEY) {
+        throw new Error("LlamaCloud API key is not configured");
+      }
+      return createLlamaParseParser(env.LLAMA_CLOUD_API_KEY);
+  }
+}
+
+/**
+ * Extract the pages of an upload. Formats other than PDF have a single
+ * extractor each. PDFs use the parser selected by `DOCUMENT_PARSER`; when
+ * `DOCUMENT_PARSER_FALLBACK` is enabled and it fails, the local pdf.js
+ * extractor is used instead.
+ */
+export async function parseDocument(
+  buffer: Buffer,
+  format: DocumentFormat = "pdf",
+): Promise<ParsedDocument> {
+  switch (format) {
+    case "epub":
+      return createEpubParser().parse(buffer);
+    case "docx":
+      return createDocxParser().parse(buffer);
+    case "txt":
+      return createTextParser().parse(buffer);
+    case "html":
+      return createHtmlParser().parse(buffer);
+    case "md":
+      return createMarkdownParser().parse(buffer);
+    case "pdf":
+      break;
+  }
+
+  try {
+    return await getDocumentParser().parse(buffer);
+  } catch (error) {
+    if (!env.DOCUMENT_PARSER_FALLBACK || env.DOCUMENT_PARSER === "pdfjs") {
+      throw error;
+    }
+
+    console.error(
+      `Parser ${env.DOCUMENT_PARSER} failed, falling back to pdfjs:`,
+      error,
+    );
+    return getDocumentParser("pdfjs").parse(buffer);
+  }
+}
@@ -0,0 +1,27 @@
+import { LlamaParseReader } from "@llamaindex/cloud/reader";
+
+import { type DocumentParser } from "./types";
+
+/**
+ * Parser backed by LlamaParse on LlamaCloud. Returns one markdown page per PDF
+ * page.
+ */
+export function createLlamaParseParser(apiKey: string): DocumentParser {
+  return {
+    name: "llamaparse",
+    async parse(buffer) {
+      const reader = new LlamaParseReader({
+        resultType: "markdown",
+        apiKey,
+      });
+      const docs = await reader.loadDataAsContent(buffer);
+
+      return {
+        pages: docs.map((doc, index) => ({
+          number: index + 1,
+          content: doc.getText(),
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { type ParsedPage } from "./types";
+
+// Target size of a page for formats without page breaks, about one printed page.
+const PAGE_CHARACTERS = 3000;
+
+/**
+ * Split markdown into pages of roughly `maxCharacters`, breaking only between
+ * paragraphs. A paragraph longer than the limit becomes a page of its own.
+ */
+export function paginate(
+  markdown: string,
+  maxCharacters = PAGE_CHARACTERS,
+): ParsedPage[] {
+  const pages: string[] = [];
+  let current = "";
+
+  for (const paragraph of markdown.split(/\n\s*\n/)) {
+    const text = paragraph.trim();
+    if (!text) continue;
+
+    if (current && current.length + text.length + 2 > maxCharacters) {
+      pages.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${text}` : text;
+  }
+  if (current) pages.push(current);
+
+  return pages.map((content, index) => ({ number: index + 1, content }));
+}
+
+/**
+ * Split markdown into sections starting at headings of `maxLevel` or higher.
+ * Text before the first heading becomes a section of its own. Falls back to
+ * `paginate` when there are no such headings.
+ */
+export function splitSections(markdown: string, maxLevel = 2): ParsedPage[] {
+  const heading = new RegExp(`^#{1,${maxLevel}}[ \\t]`);
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.split("\n")) {
+    if (line.startsWith("```")) inCodeBlock = !inCodeBlock;
+
+    if (!inCodeBlock && heading.test(line) && current.join("").trim()) {
+      sections.push(current.join("\n").trim());
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.join("").trim()) sections.push(current.join("\n").trim());
+
+  if (sections.length <= 1) return paginate(markdown);
+
+  return sections.map((content, index) => ({ number: index + 1, content }));
+}
@@ -0,0 +1,44 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { type TextItem } from "pdfjs-dist/types/src/display/api";
+
+import { type DocumentParser } from "./types";
+
+/**
+ * Local PDF text extractor using pdf.js. Works offline, but only returns the
+ * plain text layer (no OCR, no markdown structure).
+ */
+export function createPdfJsParser(): DocumentParser {
+  return {
+    name: "pdfjs",
+    async parse(buffer) {
+      const pdf = await getDocument({
+        data: new Uint8Array(buffer),
+        useSystemFonts: true,
+        isEvalSupported: false,
+      }).promise;
+
+      try {
+        const pages = [];
+        for (let number = 1; number <= pdf.numPages; number++) {
+          const page = await pdf.getPage(number);
+          const textContent = await page.getTextContent();
+
+          // Rebuild lines from the text items, honouring explicit line ends.
+          const content = textContent.items
+            .filter((item): item is TextItem => "str" in item)
+            .map((item) => item.str + (item.hasEOL ? "\n" : ""))
+            .join("")
+            .replace(/[ \t]+\n/g, "\n")
+            .trim();
+
+          pages.push({ number, content });
+          page.cleanup();
+        }
+
+        return { pages };
+      } finally {
+        await pdf.destroy();
+      }
+    },
+  };
+}
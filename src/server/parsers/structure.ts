@@ -0,0 +1,157 @@
+export type SourcePage = {
+  pageNumber: number;
+  content: string;
+};
+
+/**
+ * A logical section of a document. It starts at a heading, given as a page and
+ * a character offset in that page's content, and runs until the next chapter.
+ */
+export type DetectedChapter = {
+  title: string;
+  startPageNumber: number;
+  startOffset: number;
+};
+
+type Heading = DetectedChapter & { level: number };
+
+// Title of the text before the first heading, such as a preface.
+const OPENING_TITLE = "Introduction";
+
+// A line that is only a page number, as printed in headers and footers.
+const PAGE_NUMBER_LINE = /^[ \t]*(?:page[ \t]+)?\d+[ \t]*$/i;
+
+function findHeadings(page: SourcePage) {
+  const headings: Heading[] = [];
+  let offset = 0;
+  let inCodeBlock = false;
+
+  for (const line of page.content.split("\n")) {
+    if (line.startsWith("```")) inCodeBlock = !inCodeBlock;
+
+    const match = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/.exec(line);
+    if (match && !inCodeBlock) {
+      headings.push({
+        level: match[1]!.length,
+        title: match[2]!.trim(),
+        startPageNumber: page.pageNumber,
+        startOffset: offset,
+      });
+    }
+
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Group pages into chapters using their markdown headings. The highest
+ * heading level that splits the document into at least two sections is used,
+ * so a single title heading above `##` sections does not become the only
+ * chapter. Documents without headings become a single chapter.
+ */
+export function detectChapters(pages: SourcePage[]): DetectedChapter[] {
+  const sorted = [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const first = sorted[0];
+  if (!first) return [];
+
+  const headings = sorted.flatMap(findHeadings);
+
+  let chapters: DetectedChapter[] = [];
+  for (let level = 1; level <= 6; level++) {
+    const candidates = headings.filter((heading) => heading.level <= level);
+    if (candidates.length >= 2) {
+      chapters = candidates.map(({ title, startPageNumber, startOffset }) => ({
+        title,
+        startPageNumber,
+        startOffset,
+      }));
+      break;
+    }
+  }
+
+  if (chapters.length === 0) {
+    return [
+      {
+        title: headings[0]?.title ?? OPENING_TITLE,
+        startPageNumber: first.pageNumber,
+        startOffset: 0,
+      },
+    ];
+  }
+
+  // Keep text before the first heading as a chapter of its own
+  const opening: DetectedChapter = {
+    title: OPENING_TITLE,
+    startPageNumber: first.pageNumber,
+    startOffset: 0,
+  };
+  if (getChapterContent(sorted, opening, chapters[0]).trim()) {
+    chapters.unshift(opening);
+  }
+
+  return chapters;
+}
+
+/**
+ * Join the text of consecutive pages so speech flows across page breaks:
+ * printed page numbers are dropped, words hyphenated across the break are
+ * rejoined, and a sentence cut by the break continues on the same line.
+ */
+export function joinPages(contents: string[]) {
+  let result = "";
+
+  for (const content of contents) {
+    const lines = content.trim().split("\n");
+    while (lines.length && PAGE_NUMBER_LINE.test(lines[0]!)) lines.shift();
+    while (lines.length && PAGE_NUMBER_LINE.test(lines[lines.length - 1]!)) {
+      lines.pop();
+    }
+
+    const text = lines.join("\n").trim();
+    if (!text) continue;
+
+    if (!result) {
+      result = text;
+    } else if (/[A-Za-z]-$/.test(result) && /^[a-z]/.test(text)) {
+      // "exam-" + "ple" reads as "example"
+      result = result.slice(0, -1) + text;
+    } else if (/[.!?:;"”')\]]$/.test(result) || /^[#|>\-*\d`]/.test(text)) {
+      // The page ended a sentence, or the next one starts a new block
+      result = `${result}\n\n${text}`;
+    } else {
+      result = `${result} ${text}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Text of a chapter, from its start up to the start of the next chapter.
+ */
+export function getChapterContent(
+  pages: SourcePage[],
+  chapter: DetectedChapter,
+  next: DetectedChapter | undefined,
+) {
+  const contents = pages
+    .filter(
+      (page) =>
+        page.pageNumber >= chapter.startPageNumber &&
+        (!next || page.pageNumber <= next.startPageNumber),
+    )
+    .sort((a, b) => a.pageNumber - b.pageNumber)
+    .map((page) => {
+      const start =
+        page.pageNumber === chapter.startPageNumber ? chapter.startOffset : 0;
+      const end =
+        next && page.pageNumber === next.startPageNumber
+          ? next.startOffset
+          : page.content.length;
+      return page.content.slice(start, end);
+    });
+
+  return joinPages(contents);
+}
@@ -0,0 +1,31 @@
+import { paginate, splitSections } from "./paginate";
+import { type DocumentParser } from "./types";
+
+/**
+ * Plain text extractor. Text files have no page breaks, so the text is split
+ * into pages of similar length.
+ */
+export function createTextParser(): DocumentParser {
+  return {
+    name: "text",
+    async parse(buffer) {
+      // Normalize Windows line endings so paragraphs split cleanly
+      const text = buffer.toString("utf8").replace(/\r\n?/g, "\n");
+      return { pages: paginate(text) };
+    },
+  };
+}
+
+/**
+ * Markdown extractor. Every top-level section (`#` or `##` heading) becomes a
+ * page.
+ */
+export function createMarkdownParser(): DocumentParser {
+  return {
+    name: "markdown",
+    async parse(buffer) {
+      const markdown = buffer.toString("utf8").replace(/\r\n?/g, "\n");
+      return { pages: splitSections(markdown) };
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Upload formats that can be turned into pages.
+ */
+export type DocumentFormat = "pdf" | "epub" | "docx" | "txt" | "html" | "md";
+
+export type ParsedPage = {
+  number: number;
+  content: string;
+};
+
+export type ParsedDocument = {
+  pages: ParsedPage[];
+};
+
+/**
+ * Common interface implemented by every document text extractor.
+ */
+export interface DocumentParser {
+  name: string;
+  parse(buffer: Buffer): Promise<ParsedDocument>;
+}
@@ -0,0 +1,125 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type BinaryLike,
+} from "crypto";
+import { desc, eq, sql } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { audiobooks, shareLinks } from "~/server/db/schema";
+
+function deriveKey(password: BinaryLike, salt: BinaryLike) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, 32, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+/**
+ * Random token for a new share link.
+ */
+export function createShareToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Hash a share password as `salt:key`, both hex encoded.
+ */
+export async function hashSharePassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+
+  return `${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+export async function verifySharePassword(password: string, hash: string) {
+  const [salt, expected] = hash.split(":");
+  if (!salt || !expected) return false;
+
+  const key = await deriveKey(password, Buffer.from(salt, "hex"));
+  return timingSafeEqual(key, Buffer.from(expected, "hex"));
+}
+
+/**
+ * Value of the cookie that unlocks a password-protected link. It is keyed by
+ * the password hash, so changing the password locks earlier visitors out.
+ */
+export function getShareUnlockValue(share: {
+  token: string;
+  passwordHash: string;
+}) {
+  return createHmac("sha256", share.passwordHash)
+    .update(share.token)
+    .digest("base64url");
+}
+
+export function isShareUnlocked(
+  share: { token: string; passwordHash: string | null },
+  cookieValue: string | undefined,
+) {
+  if (!share.passwordHash) return true;
+  if (!cookieValue) return false;
+
+  const expected = Buffer.from(
+    getShareUnlockValue({
+      token: share.token,
+      passwordHash: share.passwordHash,
+    }),
+  );
+  const actual = Buffer.from(cookieValue);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function getShareCookieName(token: string) {
+  return `share-${token}`;
+}
+
+/**
+ * Find a usable share link with the latest finished audiobook of its
+ * document. Revoked or expired links, and documents in the trash, are not
+ * served.
+ */
+export async function getActiveShare(token: string, now = new Date()) {
+  const share = await db.query.shareLinks.findFirst({
+    where: eq(shareLinks.token, token),
+    with: {
+      document: {
+        columns: { id: true, name: true, deletedAt: true },
+        with: {
+          audiobooks: {
+            where: eq(audiobooks.status, "completed"),
+            orderBy: [desc(audiobooks.createdAt)],
+            limit: 1,
+          },
+        },
+      },
+    },
+  });
+
+  if (
+    !share ||
+    share.revokedAt ||
+    (share.expiresAt && share.expiresAt <= now) ||
+    share.document.deletedAt
+  ) {
+    return null;
+  }
+
+  return { ...share, audiobook: share.document.audiobooks[0] ?? null };
+}
+
+/**
+ * Count a visit to a share link.
+ */
+export async function recordShareAccess(shareId: number) {
+  await db
+    .update(shareLinks)
+    .set({
+      accessCount: sql`${shareLinks.accessCount} + 1`,
+      lastAccessedAt: new Date(),
+    })
+    .where(eq(shareLinks.id, shareId));
+}
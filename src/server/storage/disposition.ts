@@ -0,0 +1,8 @@
+/**
+ * `Content-Disposition` value that downloads a file under `fileName`. The
+ * plain `filename` is an ASCII fallback for clients without RFC 5987 support.
+ */
+export function getContentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
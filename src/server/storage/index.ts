@@ -0,0 +1,65 @@
+import { env } from "~/env";
+
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import { type StorageBackend, type StoredObject } from "./types";
+
+export type * from "./types";
+
+let storage: StorageBackend | undefined;
+
+/**
+ * Get the storage backend selected with `STORAGE_DRIVER`.
+ */
+export function getStorage(): StorageBackend {
+  if (storage) return storage;
+
+  switch (env.STORAGE_DRIVER) {
+    case "local":
+      storage = createLocalStorage({
+        directory: env.STORAGE_LOCAL_DIR,
+        publicUrl: env.STORAGE_PUBLIC_URL,
+      });
+      break;
+    case "s3":
+      storage = createS3Storage({
+        endpoint: env.AWS_ENDPOINT_URL_S3,
+        region: env.AWS_REGION,
+        bucket: env.AWS_S3_BUCKET,
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+        publicUrl: env.STORAGE_PUBLIC_URL,
+        forcePathStyle: env.AWS_S3_FORCE_PATH_STYLE,
+      });
+      break;
+  }
+
+  return storage;
+}
+
+/**
+ * Read the contents of an audio file. Falls back to downloading `filePath`
+ * for files saved before storage keys were tracked.
+ */
+export async function readAudioFile(audioFile: {
+  storageKey: string | null;
+  filePath: string;
+}): Promise<StoredObject> {
+  if (audioFile.storageKey) {
+    const object = await getStorage().get(audioFile.storageKey);
+    if (!object) {
+      throw new Error(`Audio file ${audioFile.storageKey} not found`);
+    }
+    return object;
+  }
+
+  const response = await fetch(audioFile.filePath);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio file ${audioFile.filePath}`);
+  }
+
+  return {
+    body: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get("content-type") ?? "audio/mpeg",
+  };
+}
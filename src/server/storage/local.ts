@@ -0,0 +1,65 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+import { type StorageBackend } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".m4b": "audio/mp4",
+  ".json": "application/json",
+};
+
+export function getContentType(key: string) {
+  return (
+    CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream"
+  );
+}
+
+/**
+ * Storage backend that keeps objects on the local filesystem. Objects are
+ * served by the `/api/storage` route.
+ */
+export function createLocalStorage(options: {
+  directory: string;
+  publicUrl?: string;
+}): StorageBackend {
+  const root = path.resolve(options.directory);
+  const publicUrl = (options.publicUrl ?? "/api/storage").replace(/\/$/, "");
+
+  // Resolve a key inside the storage root, rejecting any path traversal.
+  function resolveKey(key: string) {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        return {
+          body: await readFile(resolveKey(key)),
+          contentType: getContentType(key),
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+    url(key) {
+      return `${publicUrl}/${key}`;
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./index", () => ({
+  getStorage: () => ({
+    get: async () => ({
+      body: Buffer.from("audio"),
+      contentType: "audio/mpeg",
+    }),
+  }),
+}));
+
+import { createAudioResponse, parseRange } from "./response";
+
+describe("createAudioResponse", () => {
+  const req = new Request("https://example.com/audio");
+
+  it("lets the browser cache streamed audio by default", async () => {
+    const response = await createAudioResponse(req, "audio/take.mp3");
+    expect(response.headers.get("Cache-Control")).toBe("private, max-age=3600");
+  });
+
+  it("uses the given cache policy", async () => {
+    const response = await createAudioResponse(req, "audio/take.mp3", {
+      cacheControl: "private, no-store",
+    });
+    expect(response.headers.get("Cache-Control")).toBe("private, no-store");
+  });
+});
+
+describe("parseRange", () => {
+  it("parses open and suffix ranges", () => {
+    expect(parseRange("bytes=2-", 10)).toEqual({ start: 2, end: 9 });
+    expect(parseRange("bytes=-3", 10)).toEqual({ start: 7, end: 9 });
+    expect(parseRange("bytes=20-", 10)).toBe("unsatisfiable");
+    expect(parseRange(null, 10)).toBeNull();
+  });
+});
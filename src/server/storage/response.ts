@@ -0,0 +1,94 @@
+import { getStorage } from "./index";
+import { getContentDisposition } from "./disposition";
+
+// Signed URLs only need to outlive the redirect and the player's first request.
+const SIGNED_URL_TTL_SECONDS = 300;
+
+type ByteRange = { start: number; end: number };
+
+/**
+ * Parse a single-range `Range` header against an object of `size` bytes.
+ * Returns `null` when the whole object should be sent (no header, or a
+ * multi-range request) and `"unsatisfiable"` when the range is out of bounds.
+ */
+export function parseRange(
+  header: string | null,
+  size: number,
+): ByteRange | null | "unsatisfiable" {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, first = "", last = ""] = match;
+  if (!first && !last) return "unsatisfiable";
+
+  // "bytes=-500" is the last 500 bytes
+  const start = first ? Number(first) : Math.max(0, size - Number(last));
+  const end = first && last ? Math.min(Number(last), size - 1) : size - 1;
+
+  if (start > end || start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Respond with a stored audio object the caller is already allowed to read.
+ * Backends that can sign URLs get a redirect to a short-lived URL; others are
+ * streamed with `Range` support so players can seek. Streamed audio is cached
+ * by the browser for an hour unless `cacheControl` says otherwise; pass
+ * `no-store` when access can be revoked.
+ */
+export async function createAudioResponse(
+  req: Request,
+  storageKey: string,
+  options: { downloadName?: string; cacheControl?: string } = {},
+) {
+  const storage = getStorage();
+
+  if (storage.signedUrl) {
+    const url = await storage.signedUrl(storageKey, {
+      expiresInSeconds: SIGNED_URL_TTL_SECONDS,
+      downloadName: options.downloadName,
+    });
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: url, "Cache-Control": "private, no-store" },
+    });
+  }
+
+  const object = await storage.get(storageKey);
+  if (!object) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const size = object.body.length;
+  const headers = new Headers({
+    "Content-Type": object.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": options.cacheControl ?? "private, max-age=3600",
+  });
+  if (options.downloadName) {
+    headers.set(
+      "Content-Disposition",
+      getContentDisposition(options.downloadName),
+    );
+  }
+
+  const range = parseRange(req.headers.get("range"), size);
+
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    headers.set("Content-Length", (range.end - range.start + 1).toString());
+    return new Response(object.body.subarray(range.start, range.end + 1), {
+      status: 206,
+      headers,
+    });
+  }
+
+  headers.set("Content-Length", size.toString());
+  return new Response(object.body, { headers });
+}
@@ -0,0 +1,96 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import { getContentDisposition } from "./disposition";
+import { type StorageBackend } from "./types";
+
+type S3StorageOptions = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Base URL objects are publicly served from. Defaults to `${endpoint}/${bucket}`.
+  publicUrl?: string;
+  // MinIO and most self-hosted servers need path-style addressing.
+  forcePathStyle?: boolean;
+};
+
+/**
+ * Storage backend for any S3-compatible service (Tigris, AWS S3, MinIO, R2).
+ */
+export function createS3Storage(options: S3StorageOptions): StorageBackend {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    },
+  });
+
+  const publicUrl = (
+    options.publicUrl ?? `${options.endpoint}/${options.bucket}`
+  ).replace(/\/$/, "");
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      const upload = new Upload({
+        client,
+        params: {
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        },
+      });
+
+      await upload.done();
+    },
+    async get(key) {
+      try {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: options.bucket, Key: key }),
+        );
+        if (!response.Body) return null;
+
+        return {
+          body: Buffer.from(await response.Body.transformToByteArray()),
+          contentType: response.ContentType ?? "application/octet-stream",
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: options.bucket, Key: key }),
+      );
+    },
+    url(key) {
+      return `${publicUrl}/${key}`;
+    },
+    async signedUrl(key, { expiresInSeconds, downloadName }) {
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          ResponseContentDisposition: downloadName
+            ? getContentDisposition(downloadName)
+            : undefined,
+        }),
+        { expiresIn: expiresInSeconds },
+      );
+    },
+  };
+}
@@ -0,0 +1,25 @@
+export type StoredObject = {
+  body: Buffer;
+  contentType: string;
+};
+
+export type SignedUrlOptions = {
+  expiresInSeconds: number;
+  // Serve the object as a download with this file name.
+  downloadName?: string;
+};
+
+/**
+ * Common interface implemented by every storage backend. Keys are relative,
+ * slash-separated paths such as `audio/1-2-1700000000000.mp3`.
+ */
+export interface StorageBackend {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+  // Short-lived URL for backends that can serve private objects themselves.
+  // Others are streamed through the app.
+  signedUrl?(key: string, options: SignedUrlOptions): Promise<string>;
+}
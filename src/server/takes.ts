@@ -0,0 +1,69 @@
+import { and, inArray, notInArray } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import {
+  audioFiles,
+  chapters,
+  generationJobs,
+  listeningProgress,
+  pages,
+} from "~/server/db/schema";
+import { getStorage } from "~/server/storage";
+
+/**
+ * Delete takes together with their stored audio. Cached audio is shared by
+ * takes synthesized from the same input, so objects that other takes still
+ * use are kept.
+ */
+export async function deleteTakes(
+  takes: { id: number; storageKey: string | null }[],
+) {
+  if (takes.length === 0) return 0;
+
+  const ids = takes.map((take) => take.id);
+  const storageKeys = [
+    ...new Set(
+      takes.flatMap((take) => (take.storageKey ? [take.storageKey] : [])),
+    ),
+  ];
+
+  const shared =
+    storageKeys.length > 0
+      ? await db.query.audioFiles.findMany({
+          where: and(
+            inArray(audioFiles.storageKey, storageKeys),
+            notInArray(audioFiles.id, ids),
+          ),
+          columns: { storageKey: true },
+        })
+      : [];
+  const unusedKeys = storageKeys.filter(
+    (key) => !shared.some((take) => take.storageKey === key),
+  );
+
+  // Remove stored objects first, so a failure leaves the rows to retry with
+  const storage = getStorage();
+  await Promise.all(unusedKeys.map((key) => storage.delete(key)));
+
+  // Nothing may point at the takes once their rows are gone
+  await db
+    .update(pages)
+    .set({ activeAudioFileId: null })
+    .where(inArray(pages.activeAudioFileId, ids));
+  await db
+    .update(chapters)
+    .set({ activeAudioFileId: null })
+    .where(inArray(chapters.activeAudioFileId, ids));
+  await db
+    .update(generationJobs)
+    .set({ audioFileId: null })
+    .where(inArray(generationJobs.audioFileId, ids));
+  await db
+    .update(listeningProgress)
+    .set({ audioFileId: null })
+    .where(inArray(listeningProgress.audioFileId, ids));
+
+  await db.delete(audioFiles).where(inArray(audioFiles.id, ids));
+
+  return unusedKeys.length;
+}
@@ -0,0 +1,102 @@
+import { type WordTiming } from "./types";
+
+/**
+ * Word timings of a take. Offsets point into `text`, the text that was
+ * synthesized, and times are relative to the start of the audio file.
+ */
+export type Alignment = {
+  text: string;
+  words: WordTiming[];
+};
+
+/**
+ * Group per-character timings, as returned by ElevenLabs, into words.
+ */
+export function wordsFromCharacters(
+  characters: string[],
+  startTimes: number[],
+  endTimes: number[],
+): WordTiming[] {
+  const words: WordTiming[] = [];
+  let offset = 0;
+  let current: WordTiming | undefined;
+
+  characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      current = undefined;
+    } else if (current) {
+      current.end = offset + character.length;
+      current.endMs = Math.round((endTimes[index] ?? 0) * 1000);
+    } else {
+      current = {
+        start: offset,
+        end: offset + character.length,
+        startMs: Math.round((startTimes[index] ?? 0) * 1000),
+        endMs: Math.round((endTimes[index] ?? 0) * 1000),
+      };
+      words.push(current);
+    }
+
+    offset += character.length;
+  });
+
+  return words;
+}
+
+/**
+ * Spread the duration over the words in proportion to their length. Used when
+ * the provider returned no timings, e.g. for audio reused from the cache of a
+ * take that predates alignments.
+ */
+export function estimateWords(text: string, durationMs: number): WordTiming[] {
+  const matches = [...text.matchAll(/\S+/g)];
+  const total = matches.reduce((sum, match) => sum + match[0].length + 1, 0);
+
+  let position = 0;
+  return matches.map((match) => {
+    const startMs = Math.round((position / total) * durationMs);
+    position += match[0].length + 1;
+
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      startMs,
+      endMs: Math.round(((position - 1) / total) * durationMs),
+    };
+  });
+}
+
+/**
+ * Combine the timings of chunks synthesized separately into timings for the
+ * whole text. Chunks are located in `text` word by word, since chunking may
+ * collapse whitespace, and their times are shifted by the duration of the
+ * chunks before them.
+ */
+export function joinAlignments(
+  text: string,
+  chunks: { text: string; words: WordTiming[]; durationMs: number }[],
+): Alignment {
+  const words: WordTiming[] = [];
+  let cursor = 0;
+  let elapsedMs = 0;
+
+  for (const chunk of chunks) {
+    for (const word of chunk.words) {
+      const wordText = chunk.text.slice(word.start, word.end);
+      const start = text.indexOf(wordText, cursor);
+      if (start === -1) continue;
+
+      cursor = start + wordText.length;
+      words.push({
+        start,
+        end: cursor,
+        startMs: word.startMs + elapsedMs,
+        endMs: word.endMs + elapsedMs,
+      });
+    }
+
+    elapsedMs += chunk.durationMs;
+  }
+
+  return { text, words };
+}
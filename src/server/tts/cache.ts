@@ -0,0 +1,34 @@
+import { hashContent } from "./hash";
+import { type SynthesisProfile } from "./profile";
+
+/**
+ * Content-addressed key of a synthesis: the same provider, voice, profile and
+ * normalized text always produce the same key, so the stored audio can be
+ * reused instead of synthesizing it again.
+ */
+export function getSynthesisCacheKey({
+  provider,
+  voice,
+  profile,
+  text,
+}: {
+  provider: string;
+  voice: string;
+  profile: SynthesisProfile;
+  text: string;
+}) {
+  // Fixed field order, so the key does not depend on how the profile was built
+  return hashContent(
+    JSON.stringify([
+      provider,
+      voice,
+      profile.model,
+      profile.stability,
+      profile.similarityBoost,
+      profile.style,
+      profile.speed,
+      profile.outputFormat,
+      text,
+    ]),
+  );
+}
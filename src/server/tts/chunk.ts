@@ -0,0 +1,69 @@
+/**
+ * Split text into chunks of at most `maxCharacters`, preferring paragraph
+ * boundaries, then sentence boundaries, then word boundaries. Text is only cut
+ * mid-word when a single word is longer than the limit.
+ */
+export function splitIntoChunks(text: string, maxCharacters: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  function flush() {
+    if (current.trim()) chunks.push(current.trim());
+    current = "";
+  }
+
+  function append(piece: string, separator: string) {
+    if (!current) {
+      current = piece;
+    } else if (
+      current.length + separator.length + piece.length <=
+      maxCharacters
+    ) {
+      current += separator + piece;
+    } else {
+      flush();
+      current = piece;
+    }
+  }
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    // Start a new chunk at each paragraph when the paragraph fits on its own.
+    if (trimmed.length <= maxCharacters) {
+      append(trimmed, "\n\n");
+      continue;
+    }
+
+    // Keep the paragraph break in front of the first piece of the paragraph.
+    let separator = "\n\n";
+    for (const sentence of splitSentences(trimmed)) {
+      if (sentence.length <= maxCharacters) {
+        append(sentence, separator);
+        separator = " ";
+        continue;
+      }
+
+      for (const word of sentence.split(/\s+/)) {
+        for (let i = 0; i < word.length; i += maxCharacters) {
+          append(word.slice(i, i + maxCharacters), separator);
+          separator = " ";
+        }
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Split a paragraph into sentences, keeping the terminating punctuation.
+ */
+export function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?…]["'”’)\]]*)\s+(?=\S)/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
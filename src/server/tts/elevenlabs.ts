@@ -0,0 +1,96 @@
+import { ElevenLabsClient, type ElevenLabs } from "elevenlabs";
+
+import { wordsFromCharacters } from "./alignment";
+import { resolveSynthesisProfile } from "./profile";
+import { type TtsProvider } from "./types";
+
+const MODEL_ID = "eleven_multilingual_v2";
+const DEFAULT_VOICE_ID = "my2nUXZc8WyNijMOfltw";
+const MODELS = [
+  "eleven_multilingual_v2",
+  "eleven_turbo_v2_5",
+  "eleven_flash_v2_5",
+  "eleven_monolingual_v1",
+];
+
+// Response of the with-timestamps endpoint, which the SDK leaves untyped.
+type TimestampsResponse = {
+  audio_base64: string;
+  alignment?: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+};
+
+/**
+ * Text-to-speech provider backed by the ElevenLabs API.
+ */
+export function createElevenLabsProvider(apiKey: string): TtsProvider {
+  const client = new ElevenLabsClient({ apiKey });
+
+  const capabilities = {
+    maxCharacters: 2500,
+    maxConcurrency: 2,
+    contentType: "audio/mpeg",
+    fileExtension: "mp3",
+    requiresNetwork: true,
+  };
+
+  return {
+    name: "elevenlabs",
+    model: MODEL_ID,
+    models: MODELS,
+    defaultVoice: DEFAULT_VOICE_ID,
+    capabilities,
+    async synthesize({ text, voice, profile, previousText, nextText }) {
+      const { model, stability, similarityBoost, style, speed, outputFormat } =
+        resolveSynthesisProfile(profile ?? null, { model: MODEL_ID });
+
+      // `speed` is accepted by the API but missing from the SDK types
+      const voiceSettings: ElevenLabs.VoiceSettings & { speed: number } = {
+        stability,
+        similarity_boost: similarityBoost,
+        style,
+        speed,
+      };
+
+      // The timestamps endpoint returns the audio together with the
+      // character timings, so the words can be followed during playback
+      const response = (await client.textToSpeech.convertWithTimestamps(voice, {
+        text,
+        model_id: model,
+        voice_settings: voiceSettings,
+        output_format: outputFormat,
+        previous_text: previousText,
+        next_text: nextText,
+      })) as TimestampsResponse;
+
+      const { alignment } = response;
+
+      return {
+        audio: Buffer.from(response.audio_base64, "base64"),
+        contentType: capabilities.contentType,
+        fileExtension: capabilities.fileExtension,
+        words: alignment
+          ? wordsFromCharacters(
+              alignment.characters,
+              alignment.character_start_times_seconds,
+              alignment.character_end_times_seconds,
+            )
+          : undefined,
+      };
+    },
+    async listVoices() {
+      const { voices } = await client.voices.getAll();
+
+      return voices.map((voice) => ({
+        id: voice.voice_id,
+        name: voice.name ?? voice.voice_id,
+        description: voice.description,
+        previewUrl: voice.preview_url,
+        labels: voice.labels,
+      }));
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createHash } from "crypto";
+
+import { normalizeForSpeech, type SpeechOptions } from "./normalize";
+
+/**
+ * SHA-256 hex digest of the text sent to the provider, used to tell whether a
+ * take was synthesized from the current page content.
+ */
+export function hashContent(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Whether a take no longer matches what the page would be read as now, after
+ * the text or the document's speech options changed. Takes recorded without
+ * a hash are never reported as stale.
+ */
+export function isAudioStale(
+  audioFile: { contentHash: string | null },
+  content: string,
+  speechOptions: Partial<SpeechOptions> | null,
+) {
+  if (!audioFile.contentHash) return false;
+
+  return (
+    audioFile.contentHash !==
+    hashContent(normalizeForSpeech(content, speechOptions ?? {}))
+  );
+}
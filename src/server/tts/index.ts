@@ -0,0 +1,31 @@
+import { env } from "~/env";
+
+import { createElevenLabsProvider } from "./elevenlabs";
+import { createLocalProvider } from "./local";
+import { type TtsProvider } from "./types";
+
+export type * from "./types";
+export type { SynthesisProfile } from "./profile";
+
+let provider: TtsProvider | undefined;
+
+/**
+ * Get the text-to-speech provider selected with `TTS_PROVIDER`.
+ */
+export function getTtsProvider(): TtsProvider {
+  if (provider) return provider;
+
+  switch (env.TTS_PROVIDER) {
+    case "local":
+      provider = createLocalProvider();
+      break;
+    case "elevenlabs":
+      if (!env.ELEVENLABS_API_KEY) {
+        throw new Error("ElevenLabs API key is not configured");
+      }
+      provider = createElevenLabsProvider(env.ELEVENLABS_API_KEY);
+      break;
+  }
+
+  return provider;
+}
@@ -0,0 +1,104 @@
+import { createHash } from "crypto";
+
+import { encodeWav } from "~/server/audio/wav";
+import { type TtsProvider, type TtsVoice, type WordTiming } from "./types";
+
+const SAMPLE_RATE = 16000;
+
+const VOICES: (TtsVoice & { baseFrequency: number })[] = [
+  { id: "local-low", name: "Local (low)", baseFrequency: 140 },
+  { id: "local-mid", name: "Local (mid)", baseFrequency: 220 },
+  { id: "local-high", name: "Local (high)", baseFrequency: 330 },
+];
+
+/**
+ * Pick a base frequency for a voice. Unknown voice ids (e.g. ElevenLabs ids
+ * stored on older documents) are hashed so the output stays deterministic.
+ */
+function getBaseFrequency(voice: string) {
+  const known = VOICES.find((v) => v.id === voice);
+  if (known) return known.baseFrequency;
+
+  const hash = createHash("sha256").update(voice).digest();
+  return 120 + (hash.readUInt16BE(0) % 240);
+}
+
+function appendTone(
+  samples: number[],
+  frequency: number,
+  durationSeconds: number,
+) {
+  const length = Math.round(durationSeconds * SAMPLE_RATE);
+  for (let i = 0; i < length; i++) {
+    // Short linear fade in/out to avoid clicks between words.
+    const fade = Math.min(1, i / 160, (length - i) / 160);
+    const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    samples.push(Math.round(value * fade * 0x2000));
+  }
+}
+
+function appendSilence(samples: number[], durationSeconds: number) {
+  const length = Math.round(durationSeconds * SAMPLE_RATE);
+  for (let i = 0; i < length; i++) samples.push(0);
+}
+
+/**
+ * Offline text-to-speech stand-in. Every word becomes a short tone whose pitch
+ * and length are derived from the word itself, so the same input always yields
+ * the same audio and the duration roughly tracks the amount of text.
+ */
+export function createLocalProvider(): TtsProvider {
+  const capabilities = {
+    maxCharacters: 2000,
+    maxConcurrency: 4,
+    contentType: "audio/wav",
+    fileExtension: "wav",
+    requiresNetwork: false,
+  };
+
+  return {
+    name: "local",
+    model: "local-tone",
+    models: ["local-tone"],
+    defaultVoice: "local-mid",
+    capabilities,
+    async synthesize({ text, voice, profile }) {
+      const baseFrequency = getBaseFrequency(voice);
+      // Only the speaking rate applies to tones
+      const speed = profile?.speed ?? 1;
+      const samples: number[] = [];
+      const words: WordTiming[] = [];
+
+      for (const match of text.matchAll(/\S+/g)) {
+        const word = match[0];
+        const hash = createHash("md5").update(word.toLowerCase()).digest();
+        const frequency = baseFrequency * (1 + (hash[0] ?? 0) / 1024);
+        const startMs = (samples.length / SAMPLE_RATE) * 1000;
+
+        appendTone(
+          samples,
+          frequency,
+          Math.min(0.6, 0.05 + word.length * 0.04) / speed,
+        );
+        // The tone is the word, so its timing is exact
+        words.push({
+          start: match.index,
+          end: match.index + word.length,
+          startMs: Math.round(startMs),
+          endMs: Math.round((samples.length / SAMPLE_RATE) * 1000),
+        });
+        appendSilence(samples, (/[.!?]$/.test(word) ? 0.35 : 0.08) / speed);
+      }
+
+      return {
+        audio: encodeWav(Int16Array.from(samples), SAMPLE_RATE),
+        contentType: capabilities.contentType,
+        fileExtension: capabilities.fileExtension,
+        words,
+      };
+    },
+    async listVoices() {
+      return VOICES.map(({ id, name }) => ({ id, name }));
+    },
+  };
+}
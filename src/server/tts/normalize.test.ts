@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeForSpeech, numberToWords } from "./normalize";
+
+describe("numberToWords", () => {
+  it("spells out scales", () => {
+    expect(numberToWords(0)).toBe("zero");
+    expect(numberToWords(1204)).toBe("one thousand two hundred four");
+    expect(numberToWords(2_000_015)).toBe("two million fifteen");
+  });
+});
+
+describe("normalizeForSpeech", () => {
+  it("reads numbers with thousands separators as numbers, not years", () => {
+    expect(normalizeForSpeech("1,234 items")).toBe(
+      "one thousand two hundred thirty-four items",
+    );
+    expect(normalizeForSpeech("1,999,000 people")).toBe(
+      "one million nine hundred ninety-nine thousand people",
+    );
+  });
+
+  it("reads standalone years as pairs", () => {
+    expect(normalizeForSpeech("In 1999 and 2024.")).toBe(
+      "In nineteen ninety-nine and twenty twenty-four.",
+    );
+    expect(normalizeForSpeech("Since 1905")).toBe("Since nineteen oh five");
+  });
+
+  it("uses singular units for one", () => {
+    expect(normalizeForSpeech("$1.50")).toBe("one dollar and fifty cents");
+    expect(normalizeForSpeech("$2.01")).toBe("two dollars and one cent");
+    expect(normalizeForSpeech("$1,500")).toBe(
+      "one thousand five hundred dollars",
+    );
+  });
+
+  it("spells out percentages, ordinals and decimals", () => {
+    expect(normalizeForSpeech("12.5% on the 3rd")).toBe(
+      "twelve point five percent on the third",
+    );
+    expect(normalizeForSpeech("pi is 3.14")).toBe("pi is three point one four");
+  });
+
+  it("keeps underscores inside identifiers", () => {
+    expect(normalizeForSpeech("Set my_var_name first")).toBe(
+      "Set my_var_name first",
+    );
+    expect(normalizeForSpeech("call __init__ now")).toBe("call init now");
+  });
+
+  it("strips emphasis around whole words", () => {
+    expect(normalizeForSpeech("This is _really_ **bold** and *fine*")).toBe(
+      "This is really bold and fine",
+    );
+  });
+
+  it("turns headings and list items into sentences", () => {
+    expect(normalizeForSpeech("# Title\n\n- first item\n- second")).toBe(
+      "Title.\n\nfirst item.\nsecond.",
+    );
+  });
+
+  it("reads table rows with their headers", () => {
+    const table = "| Name | Age |\n| --- | --- |\n| Ann | 30 |";
+
+    expect(normalizeForSpeech(table)).toBe("Name: Ann, Age: thirty.");
+    expect(normalizeForSpeech(table, { tables: "skip" })).toBe("");
+  });
+
+  it("drops URLs but keeps link text", () => {
+    expect(
+      normalizeForSpeech("See [the docs](https://example.com) or https://x.y"),
+    ).toBe("See the docs or");
+  });
+});
@@ -0,0 +1,325 @@
+import { z } from "zod";
+
+export const speechOptionsSchema = z.object({
+  // How markdown tables are spoken: one sentence per row, or not at all.
+  tables: z.enum(["read", "skip"]),
+  // Remove bare URLs (link text is always kept).
+  dropUrls: z.boolean(),
+  // Spell out common abbreviations such as "e.g." and "Dr.".
+  expandAbbreviations: z.boolean(),
+  // Spell out numbers, ordinals, percentages and currency amounts.
+  expandNumbers: z.boolean(),
+});
+
+export type SpeechOptions = z.infer<typeof speechOptionsSchema>;
+
+export const defaultSpeechOptions: SpeechOptions = {
+  tables: "read",
+  dropUrls: true,
+  expandAbbreviations: true,
+  expandNumbers: true,
+};
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\./gi, "for example"],
+  [/\bi\.e\./gi, "that is"],
+  [/\betc\./gi, "et cetera"],
+  [/\bvs\./gi, "versus"],
+  [/\bapprox\./gi, "approximately"],
+  [/\bDr\.(?=\s+[A-Z])/g, "Doctor"],
+  [/\bMr\.(?=\s+[A-Z])/g, "Mister"],
+  [/\bMrs\.(?=\s+[A-Z])/g, "Missus"],
+  [/\bMs\.(?=\s+[A-Z])/g, "Miz"],
+  [/\bProf\.(?=\s+[A-Z])/g, "Professor"],
+  [/\bFig\.(?=\s*\d)/g, "Figure"],
+  [/\bNo\.(?=\s*\d)/g, "number"],
+  [/\bp\.(?=\s*\d)/g, "page"],
+  [/\bpp\.(?=\s*\d)/g, "pages"],
+];
+
+const ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+const SCALES = ["", "thousand", "million", "billion", "trillion"];
+
+function hundredsToWords(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(TENS[Math.floor(n / 10)]! + (n % 10 ? `-${ONES[n % 10]}` : ""));
+  } else if (n > 0) {
+    words.push(ONES[n]!);
+  }
+  return words.join(" ");
+}
+
+/**
+ * Spell out a non-negative integer, e.g. 1204 -> "one thousand two hundred four".
+ * Numbers beyond the trillions are read digit by digit.
+ */
+export function numberToWords(n: number): string {
+  if (n === 0) return ONES[0]!;
+  if (!Number.isSafeInteger(n) || n >= 1e15) {
+    return digitsToWords(String(n));
+  }
+
+  const words: string[] = [];
+  for (let scale = SCALES.length - 1; scale >= 0; scale--) {
+    const unit = 1000 ** scale;
+    const group = Math.floor(n / unit) % 1000;
+    if (group) {
+      words.push(hundredsToWords(group) + (scale ? ` ${SCALES[scale]}` : ""));
+    }
+  }
+  return words.join(" ");
+}
+
+function digitsToWords(digits: string) {
+  return digits
+    .split("")
+    .map((digit) => ONES[Number(digit)])
+    .join(" ");
+}
+
+function yearToWords(year: number) {
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) return `${numberToWords(century)} hundred`;
+  if (rest < 10) return `${numberToWords(century)} oh ${ONES[rest]}`;
+  return `${numberToWords(century)} ${numberToWords(rest)}`;
+}
+
+function ordinalToWords(n: number) {
+  const words = numberToWords(n);
+  const irregular: Record<string, string> = {
+    one: "first",
+    two: "second",
+    three: "third",
+    five: "fifth",
+    eight: "eighth",
+    nine: "ninth",
+    twelve: "twelfth",
+  };
+
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (irregular[last]) return irregular[last];
+    if (last.endsWith("y")) return last.slice(0, -1) + "ieth";
+    return last + "th";
+  });
+}
+
+function decimalToWords(value: string) {
+  const [whole = "0", fraction] = value.split(".");
+  const wholeWords = numberToWords(Number(whole));
+  return fraction
+    ? `${wholeWords} point ${digitsToWords(fraction)}`
+    : wholeWords;
+}
+
+function expandNumbers(text: string) {
+  return (
+    text
+      // Years read as pairs when they stand alone: 1999, 2024. This runs
+      // before separators are removed so "1,234" is not read as a year.
+      .replace(
+        /(?<![$\d.,])\b(1[1-9]\d{2}|20\d{2})\b(?![.,]\d|\s?%)/g,
+        (_, value: string) => yearToWords(Number(value)),
+      )
+      // Thousands separators: 1,234,567 -> 1234567
+      .replace(/\b\d{1,3}(?:,\d{3})+\b/g, (match) => match.replace(/,/g, ""))
+      // Currency: $5, $1.50
+      .replace(/\$(\d+(?:\.\d+)?)/g, (_, amount: string) => {
+        const [dollars = "0", cents = ""] = amount.split(".");
+        const centValue = Number(cents.padEnd(2, "0").slice(0, 2));
+        const words = pluralize(Number(dollars), "dollar");
+        return centValue
+          ? `${words} and ${pluralize(centValue, "cent")}`
+          : words;
+      })
+      // Percentages: 12.5%
+      .replace(
+        /(\d+(?:\.\d+)?)\s?%/g,
+        (_, value: string) => `${decimalToWords(value)} percent`,
+      )
+      // Ordinals: 1st, 22nd, 103rd, 4th
+      .replace(/\b(\d+)(?:st|nd|rd|th)\b/gi, (_, value: string) =>
+        ordinalToWords(Number(value)),
+      )
+      // Everything else, including decimals
+      .replace(/\b\d+(?:\.\d+)?\b/g, (value) => decimalToWords(value))
+  );
+}
+
+function pluralize(count: number, unit: string) {
+  return `${numberToWords(count)} ${count === 1 ? unit : `${unit}s`}`;
+}
+
+function ensureSentenceEnd(text: string) {
+  const trimmed = text.trim();
+  return /[.!?:;…]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+function splitTableRow(line: string) {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Turn a markdown table into one sentence per row, pairing every cell with its
+ * column header.
+ */
+function tableToSentences(lines: string[]) {
+  const rows = lines
+    .filter((line) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(line))
+    .map(splitTableRow);
+  const [header = [], ...body] = rows;
+
+  return body
+    .map((cells) =>
+      ensureSentenceEnd(
+        cells
+          .map((cell, index) =>
+            header[index] ? `${header[index]}: ${cell}` : cell,
+          )
+          .filter((cell) => cell.replace(/[:\s]/g, ""))
+          .join(", "),
+      ),
+    )
+    .join("\n");
+}
+
+function convertTables(text: string, mode: SpeechOptions["tables"]) {
+  const output: string[] = [];
+  let table: string[] = [];
+
+  function flushTable() {
+    if (table.length && mode === "read") output.push(tableToSentences(table));
+    table = [];
+  }
+
+  for (const line of text.split("\n")) {
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      table.push(line);
+    } else {
+      flushTable();
+      output.push(line);
+    }
+  }
+  flushTable();
+
+  return output.join("\n");
+}
+
+/**
+ * Convert markdown (as returned by LlamaParse) into plain text that reads well
+ * when spoken. Headings and list items become separate sentences so the voice
+ * pauses on them; markup, images, footnote markers and (optionally) URLs are
+ * removed.
+ */
+export function normalizeForSpeech(
+  markdown: string,
+  options: Partial<SpeechOptions> = {},
+): string {
+  const settings = { ...defaultSpeechOptions, ...options };
+
+  let text = markdown
+    .replace(/\r\n?/g, "\n")
+    // Code blocks and HTML are not meant to be read aloud
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    // Footnote and link reference definitions
+    .replace(/^[ \t]*\[[^\]]+\]:.*$/gm, "")
+    // Images, then links (keeping their text)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/!\[[^\]]*\]\[[^\]]*\]/g, "")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1");
+
+  text = convertTables(text, settings.tables);
+
+  text = text
+    // Headings become standalone sentences surrounded by pauses
+    .replace(
+      /^[ \t]{0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm,
+      (_, heading: string) => `\n${ensureSentenceEnd(heading)}\n`,
+    )
+    // Setext heading underlines and horizontal rules
+    .replace(/^[ \t]*([-=*_])([ \t]*\1){2,}[ \t]*$/gm, "")
+    // Blockquotes
+    .replace(/^[ \t]*>[ \t]?/gm, "")
+    // List items
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+(.+)$/gm, (_, item: string) =>
+      ensureSentenceEnd(item),
+    )
+    // Emphasis and inline code. Underscores only count when they wrap whole
+    // words, so identifiers like my_var_name are kept.
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/(?<!\w)__(.+?)__(?!\w)/g, "$1")
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, "$1")
+    .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]*)`/g, "$1");
+
+  if (settings.dropUrls) {
+    text = text
+      .replace(/\bhttps?:\/\/[^\s)]+/gi, "")
+      .replace(/\bwww\.[^\s)]+/gi, "");
+  }
+
+  if (settings.expandAbbreviations) {
+    for (const [pattern, replacement] of ABBREVIATIONS) {
+      text = text.replace(pattern, replacement);
+    }
+    text = text.replace(/&/g, " and ");
+  }
+
+  if (settings.expandNumbers) {
+    text = expandNumbers(text);
+  }
+
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
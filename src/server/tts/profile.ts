@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+import { type TtsProvider } from "./types";
+
+/**
+ * MP3 encodings offered by ElevenLabs, as `mp3_<sample rate>_<bitrate>`.
+ */
+export const outputFormats = [
+  "mp3_22050_32",
+  "mp3_44100_64",
+  "mp3_44100_96",
+  "mp3_44100_128",
+  "mp3_44100_192",
+] as const;
+
+/**
+ * Provider settings used to synthesize a document.
+ */
+export const synthesisProfileSchema = z.object({
+  model: z.string().min(1),
+  // How consistent the delivery is between generations.
+  stability: z.number().min(0).max(1),
+  // How closely the output follows the original voice.
+  similarityBoost: z.number().min(0).max(1),
+  // How much the style of the original voice is exaggerated.
+  style: z.number().min(0).max(1),
+  // Speaking rate, 1 being the natural pace of the voice.
+  speed: z.number().min(0.7).max(1.2),
+  outputFormat: z.enum(outputFormats),
+});
+
+export type SynthesisProfile = z.infer<typeof synthesisProfileSchema>;
+
+export const defaultSynthesisProfile: Omit<SynthesisProfile, "model"> = {
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  speed: 1,
+  outputFormat: "mp3_44100_128",
+};
+
+/**
+ * Fill in the settings a document did not choose. The model defaults to the
+ * provider's model.
+ */
+export function resolveSynthesisProfile(
+  profile: Partial<SynthesisProfile> | null,
+  provider: Pick<TtsProvider, "model">,
+): SynthesisProfile {
+  return {
+    model: provider.model,
+    ...defaultSynthesisProfile,
+    ...profile,
+  };
+}
@@ -0,0 +1,74 @@
+import { type SynthesisProfile } from "./profile";
+
+/**
+ * A voice that can be used for synthesis.
+ */
+export type TtsVoice = {
+  id: string;
+  name: string;
+  description?: string;
+  previewUrl?: string;
+  labels?: Record<string, string>;
+};
+
+/**
+ * Static limits and features of a text-to-speech provider.
+ */
+export type TtsCapabilities = {
+  // Maximum number of characters accepted in a single synthesis request.
+  maxCharacters: number;
+  // Number of synthesis requests that may run in parallel.
+  maxConcurrency: number;
+  // MIME type of the audio returned by `synthesize`.
+  contentType: string;
+  // File extension matching `contentType`, without the leading dot.
+  fileExtension: string;
+  // Whether the provider makes network calls (and may cost credits).
+  requiresNetwork: boolean;
+};
+
+export type SynthesisRequest = {
+  text: string;
+  voice: string;
+  // Model and voice settings; providers fall back to their defaults.
+  profile?: SynthesisProfile;
+  // Surrounding text, used by providers that can keep prosody consistent
+  // across chunks of a longer passage.
+  previousText?: string;
+  nextText?: string;
+};
+
+/**
+ * When a word is spoken. `start` and `end` are character offsets into the
+ * synthesized text.
+ */
+export type WordTiming = {
+  start: number;
+  end: number;
+  startMs: number;
+  endMs: number;
+};
+
+export type SynthesisResult = {
+  audio: Buffer;
+  contentType: string;
+  fileExtension: string;
+  // Word timings, for providers that report or can estimate them.
+  words?: WordTiming[];
+};
+
+/**
+ * Common interface implemented by every text-to-speech backend.
+ */
+export interface TtsProvider {
+  name: string;
+  // Default synthesis model, recorded with every take.
+  model: string;
+  // Models that can be picked in a synthesis profile.
+  models: string[];
+  // Voice used when neither the document nor the page picks one.
+  defaultVoice: string;
+  capabilities: TtsCapabilities;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+  listVoices(): Promise<TtsVoice[]>;
+}
@@ -0,0 +1,86 @@
+import { getStorage } from "~/server/storage";
+import { getTtsProvider, type TtsVoice } from "~/server/tts";
+
+// How long the provider's voice catalog is reused before it is fetched again.
+const VOICE_CACHE_MS = 60 * 60 * 1000;
+
+// Sample read by providers that do not host their own voice previews.
+const PREVIEW_TEXT =
+  "Hello! This is how your documents will sound with this voice.";
+
+let cache: { provider: string; voices: TtsVoice[]; expiresAt: number } | null =
+  null;
+
+/**
+ * List the voices of the configured provider. Voices without a hosted preview
+ * get a URL to a sample synthesized on demand.
+ */
+export async function listVoices(): Promise<TtsVoice[]> {
+  const provider = getTtsProvider();
+
+  if (
+    cache &&
+    cache.provider === provider.name &&
+    cache.expiresAt > Date.now()
+  ) {
+    return cache.voices;
+  }
+
+  try {
+    const voices = (await provider.listVoices()).map((voice) => ({
+      ...voice,
+      previewUrl:
+        voice.previewUrl ??
+        `/api/voices/${encodeURIComponent(voice.id)}/preview`,
+    }));
+
+    cache = {
+      provider: provider.name,
+      voices,
+      expiresAt: Date.now() + VOICE_CACHE_MS,
+    };
+    return voices;
+  } catch (error) {
+    console.error("Error listing voices:", error);
+    throw new Error("Failed to list voices: " + (error as Error).message);
+  }
+}
+
+/**
+ * Check that a voice exists in the provider's catalog.
+ */
+export async function isVoiceAvailable(voiceId: string) {
+  const voices = await listVoices();
+  return voices.some((voice) => voice.id === voiceId);
+}
+
+/**
+ * Voice to synthesize a page with: the page override, then the document
+ * default, then the provider default.
+ */
+export function resolveVoice(
+  page: { voice: string | null },
+  document: { voice: string | null },
+) {
+  return page.voice ?? document.voice ?? getTtsProvider().defaultVoice;
+}
+
+/**
+ * Get a short sample of a voice, synthesizing and storing it on first use.
+ */
+export async function getVoicePreview(voiceId: string) {
+  const provider = getTtsProvider();
+  const storage = getStorage();
+  const key = `voices/${provider.name}/${encodeURIComponent(voiceId)}.${provider.capabilities.fileExtension}`;
+
+  const existing = await storage.get(key);
+  if (existing) return existing;
+
+  const { audio, contentType } = await provider.synthesize({
+    text: PREVIEW_TEXT,
+    voice: voiceId,
+  });
+  await storage.put(key, audio, contentType);
+
+  return { body: audio, contentType };
+}
@@ -0,0 +1,117 @@
+import { and, count, eq, gte, inArray, lt, sql, sum } from "drizzle-orm";
+
+import { env } from "~/env";
+import { db, type Transaction } from "~/server/db";
+import { generationJobs, usageEntries, users } from "~/server/db/schema";
+
+type Plan = (typeof users.$inferSelect)["plan"];
+
+const PLAN_LIMITS: Record<Plan, number> = {
+  free: env.QUOTA_FREE_CHARACTERS,
+  pro: env.QUOTA_PRO_CHARACTERS,
+};
+
+/**
+ * Calendar month (UTC) that quotas are counted over.
+ */
+export function getUsagePeriod(now = new Date()) {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Characters the user has synthesized this month, plus the characters of jobs
+ * that are still queued or running and will be charged when they finish.
+ * Pass a transaction to read the usage inside it.
+ */
+export async function getUsage(
+  userId: string,
+  database: typeof db | Transaction = db,
+) {
+  const user = await database.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { plan: true, monthlyCharacterLimit: true },
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const period = getUsagePeriod();
+
+  const [ledger] = await database
+    .select({
+      characters: sum(usageEntries.characters).mapWith(Number),
+      durationMs: sum(usageEntries.durationMs).mapWith(Number),
+      jobs: count(),
+      cacheHits: sum(sql`${usageEntries.cacheHit}`).mapWith(Number),
+    })
+    .from(usageEntries)
+    .where(
+      and(
+        eq(usageEntries.userId, userId),
+        gte(usageEntries.createdAt, period.start),
+        lt(usageEntries.createdAt, period.end),
+      ),
+    );
+
+  const [pending] = await database
+    .select({ characters: sum(generationJobs.characters).mapWith(Number) })
+    .from(generationJobs)
+    .where(
+      and(
+        eq(generationJobs.userId, userId),
+        // Document jobs only group their page and chapter jobs
+        inArray(generationJobs.kind, ["page", "chapter"]),
+        inArray(generationJobs.status, ["queued", "running"]),
+      ),
+    );
+
+  const limit = user.monthlyCharacterLimit ?? PLAN_LIMITS[user.plan];
+  const used = ledger?.characters ?? 0;
+  const reserved = pending?.characters ?? 0;
+
+  return {
+    plan: user.plan,
+    limit,
+    used,
+    reserved,
+    remaining: Math.max(0, limit - used - reserved),
+    durationMs: ledger?.durationMs ?? 0,
+    jobs: ledger?.jobs ?? 0,
+    cacheHits: ledger?.cacheHits ?? 0,
+    periodStart: period.start,
+    periodEnd: period.end,
+  };
+}
+
+/**
+ * Record what a finished page job synthesized in the usage ledger.
+ */
+export async function recordUsage(
+  jobId: number,
+  entry: {
+    provider: string;
+    characters: number;
+    durationMs: number;
+    cacheHit: boolean;
+  },
+) {
+  const job = await db.query.generationJobs.findFirst({
+    where: eq(generationJobs.id, jobId),
+    columns: { userId: true, documentId: true },
+  });
+
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+
+  await db.insert(usageEntries).values({
+    ...entry,
+    userId: job.userId,
+    jobId,
+    documentId: job.documentId,
+  });
+}
@@ -0,0 +1,37 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createClient } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+import type * as DrizzleKit from "drizzle-kit/api";
+
+import * as schema from "~/server/db/schema";
+
+// The ESM build of drizzle-kit/api cannot be loaded by the test runner
+const { generateSQLiteDrizzleJson, generateSQLiteMigration } = createRequire(
+  import.meta.url,
+)("drizzle-kit/api") as typeof DrizzleKit;
+
+/**
+ * Empty database with the current schema, used in place of `~/server/db` in
+ * tests. It lives in a temporary file rather than in memory, because libsql
+ * opens a new connection after every transaction.
+ */
+export async function createTestDatabase() {
+  const directory = mkdtempSync(join(tmpdir(), "audiopintar-test-"));
+  process.on("exit", () => rmSync(directory, { recursive: true, force: true }));
+
+  const client = createClient({ url: `file:${join(directory, "test.db")}` });
+  const db = drizzle(client, { schema });
+
+  const statements = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    await client.execute(statement);
+  }
+
+  return { client, db };
+}
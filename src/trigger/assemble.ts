@@ -0,0 +1,183 @@
+import { logger, task } from "@trigger.dev/sdk/v3";
+import { eq } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { audiobooks } from "~/server/db/schema";
+import { concatAudio } from "~/server/audio/concat";
+import { getAudioDuration } from "~/server/audio/duration";
+import { buildId3Tag } from "~/server/audio/id3";
+import { getStorage, readAudioFile } from "~/server/storage";
+
+type TaskPayload = {
+  audiobookId: number;
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+export const assembleAudiobookTask = task({
+  id: "assemble-audiobook",
+  maxDuration: 900,
+  run: async (payload: TaskPayload) => {
+    const audiobook = await db.query.audiobooks.findFirst({
+      where: eq(audiobooks.id, payload.audiobookId),
+      with: {
+        document: {
+          with: {
+            pages: {
+              with: { audioFiles: true },
+              orderBy: (pages, { asc }) => [asc(pages.pageNumber)],
+            },
+            chapters: {
+              where: (chapters, { isNull }) => isNull(chapters.detachedAt),
+              with: { audioFiles: true },
+              orderBy: (chapters, { asc }) => [asc(chapters.number)],
+            },
+          },
+        },
+      },
+    });
+
+    if (!audiobook) {
+      throw new Error(`Audiobook ${payload.audiobookId} not found`);
+    }
+
+    await db
+      .update(audiobooks)
+      .set({ status: "processing", error: null })
+      .where(eq(audiobooks.id, audiobook.id));
+
+    const { document } = audiobook;
+
+    // Use the active take of every chapter (or page) that has audio. Takes
+    // generated before they were tracked fall back to the most recent one.
+    const getActiveTake = <T extends { id: number }>(
+      takes: T[],
+      activeAudioFileId: number | null,
+    ) =>
+      takes.find((file) => file.id === activeAudioFileId) ??
+      takes.sort((a, b) => b.id - a.id)[0];
+
+    const chapterSegments = document.chapters.flatMap((chapter) => {
+      const active = getActiveTake(
+        chapter.audioFiles,
+        chapter.activeAudioFileId,
+      );
+      return active ? [{ title: chapter.title, audioFile: active }] : [];
+    });
+    const missingChapters = document.chapters.filter(
+      (chapter) => chapter.audioFiles.length === 0,
+    );
+
+    // Once chapters have audio, the audiobook follows the chapters. Mixing in
+    // page audio would repeat or reorder text, so every chapter needs a take.
+    if (chapterSegments.length > 0 && missingChapters.length > 0) {
+      throw new Error(
+        `Generate audio for these chapters first: ${missingChapters
+          .map((chapter) => `${chapter.number}. ${chapter.title}`)
+          .join(", ")}`,
+      );
+    }
+
+    const segments =
+      chapterSegments.length > 0
+        ? chapterSegments
+        : document.pages.flatMap((page) => {
+            const active = getActiveTake(
+              page.audioFiles,
+              page.activeAudioFileId,
+            );
+            return active
+              ? [{ title: `Page ${page.pageNumber}`, audioFile: active }]
+              : [];
+          });
+
+    if (segments.length === 0) {
+      throw new Error("Document has no generated audio yet");
+    }
+
+    logger.log("Assembling audiobook", {
+      documentId: document.id,
+      segments: segments.length,
+    });
+
+    const files = await Promise.all(
+      segments.map(({ audioFile }) => readAudioFile(audioFile)),
+    );
+    const contentType = files[0]!.contentType;
+
+    if (files.some((file) => file.contentType !== contentType)) {
+      throw new Error(
+        "Parts were generated in different audio formats; regenerate them with the same provider",
+      );
+    }
+
+    // MP3 takes of different profiles can differ in sample rate, which many
+    // players mishandle within one file. Takes saved before profiles were
+    // recorded are not checked.
+    if (contentType === "audio/mpeg") {
+      const formats = new Map<string, string[]>();
+      for (const { title, audioFile } of segments) {
+        const format = audioFile.profile?.outputFormat;
+        if (!format) continue;
+        formats.set(format, [...(formats.get(format) ?? []), title]);
+      }
+
+      if (formats.size > 1) {
+        throw new Error(
+          `Parts were generated in different output formats (${[...formats]
+            .map(([format, titles]) => `${format}: ${titles.join(", ")}`)
+            .join("; ")}); regenerate them with the same output format`,
+        );
+      }
+    }
+
+    // Chapter marker per segment, positioned by the running duration
+    let position = 0;
+    const chapters = segments.map(({ title }, index) => {
+      const startMs = position;
+      position += getAudioDuration(files[index]!.body, contentType);
+      return { title, startMs, endMs: position };
+    });
+
+    let audio = concatAudio(
+      files.map((file) => file.body),
+      contentType,
+    );
+    if (contentType === "audio/mpeg") {
+      audio = Buffer.concat([
+        buildId3Tag({ title: document.name, chapters }),
+        audio,
+      ]);
+    }
+
+    const extension = FILE_EXTENSIONS[contentType] ?? "bin";
+    const fileName = `${document.id}-${Date.now()}.${extension}`;
+    const storageKey = `audiobooks/${fileName}`;
+    await getStorage().put(storageKey, audio, contentType);
+
+    await db
+      .update(audiobooks)
+      .set({
+        status: "completed",
+        fileName,
+        storageKey,
+        durationMs: position,
+        sizeBytes: audio.length,
+      })
+      .where(eq(audiobooks.id, audiobook.id));
+
+    return { storageKey, durationMs: position, chapters: chapters.length };
+  },
+  onFailure: async (payload: TaskPayload, error) => {
+    await db
+      .update(audiobooks)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(audiobooks.id, payload.audiobookId));
+  },
+});
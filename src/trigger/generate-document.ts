@@ -0,0 +1,98 @@
+import { logger, metadata, task } from "@trigger.dev/sdk/v3";
+import { asc, eq } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { generationJobs } from "~/server/db/schema";
+import { markJobCompleted, markJobFailed, markJobRunning } from "~/server/jobs";
+import { type SpeechOptions } from "~/server/tts/normalize";
+import { type SynthesisProfile } from "~/server/tts/profile";
+import { generateAudioTask } from "./generate";
+
+// Parts triggered per batch, well below Trigger.dev's batch size limit.
+const BATCH_SIZE = 100;
+
+type TaskPayload = {
+  jobId: number;
+  documentId: number;
+  settings: Partial<SpeechOptions>;
+  profile: SynthesisProfile;
+};
+
+/**
+ * Parent job that generates audio for every chapter (or page) of a document.
+ * Each part runs as a child `generate-audio` run with its own job, so progress
+ * is the state of the child jobs. The parts are read from the child jobs, and
+ * each child loads its own text, so payloads stay small for long documents.
+ */
+export const generateDocumentTask = task({
+  id: "generate-document",
+  run: async (payload: TaskPayload, { ctx }) => {
+    // Child jobs were inserted in document order
+    const parts = await db.query.generationJobs.findMany({
+      where: eq(generationJobs.parentJobId, payload.jobId),
+      columns: { id: true, pageId: true, chapterId: true },
+      orderBy: [asc(generationJobs.id)],
+    });
+
+    if (!(await markJobRunning(payload.jobId, ctx.run.id))) {
+      logger.log("Job is no longer queued, skipping", { jobId: payload.jobId });
+      return {
+        total: parts.length,
+        completed: 0,
+        failed: 0,
+        failedJobIds: [],
+        cacheHits: 0,
+      };
+    }
+    metadata.set("total", parts.length);
+
+    logger.log("Generating document", {
+      documentId: payload.documentId,
+      parts: parts.length,
+    });
+
+    const runs = [];
+    for (let start = 0; start < parts.length; start += BATCH_SIZE) {
+      const batch = await generateAudioTask.batchTriggerAndWait(
+        parts.slice(start, start + BATCH_SIZE).map((part) => ({
+          payload: {
+            jobId: part.id,
+            documentId: payload.documentId,
+            pageId: part.pageId ?? undefined,
+            chapterId: part.chapterId ?? undefined,
+            settings: payload.settings,
+            profile: payload.profile,
+          },
+        })),
+      );
+      runs.push(...batch.runs);
+    }
+
+    const failedJobIds = runs.flatMap((run, index) =>
+      run.ok ? [] : [parts[index]!.id],
+    );
+    const cacheHits = runs.filter(
+      (run) => run.ok && run.output.cacheHit,
+    ).length;
+
+    if (failedJobIds.length === parts.length) {
+      await markJobFailed(
+        payload.jobId,
+        "Audio generation failed for every part",
+      );
+    } else {
+      await markJobCompleted(payload.jobId);
+    }
+
+    return {
+      total: parts.length,
+      completed: parts.length - failedJobIds.length,
+      failed: failedJobIds.length,
+      failedJobIds,
+      cacheHits,
+    };
+  },
+  onFailure: async (payload: TaskPayload, error) => {
+    await markJobFailed(payload.jobId, error);
+  },
+});
@@ -1,102 +1,434 @@
 import { logger, task, wait } from "@trigger.dev/sdk/v3";
-import { S3Client } from "@aws-sdk/client-s3";
-import { Upload } from "@aws-sdk/lib-storage";
-import { ElevenLabsClient } from "elevenlabs";
+import { and, eq, isNotNull } from "drizzle-orm";
 import { env } from "~/env";
 import { db } from "~/server/db";
-import { audioFiles } from "~/server/db/schema";
-
-const elevenlabs = new ElevenLabsClient({
-  apiKey: env.ELEVENLABS_API_KEY,
-});
-
-const s3Client = new S3Client({
-  region: "auto",
-  endpoint: "https://fly.storage.tigris.dev",
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID,
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
-  },
-});
+import {
+  audioFiles,
+  chapters,
+  generationJobs,
+  pages,
+} from "~/server/db/schema";
+import { getChapters } from "~/server/chapters";
+import { concatAudio } from "~/server/audio/concat";
+import { getAudioDuration } from "~/server/audio/duration";
+import { markJobCompleted, markJobFailed, markJobRunning } from "~/server/jobs";
+import { getStorage } from "~/server/storage";
+import { recordUsage } from "~/server/usage";
+import {
+  getTtsProvider,
+  type SynthesisProfile,
+  type SynthesisRequest,
+  type SynthesisResult,
+  type WordTiming,
+} from "~/server/tts";
+import {
+  estimateWords,
+  joinAlignments,
+  type Alignment,
+} from "~/server/tts/alignment";
+import { splitIntoChunks } from "~/server/tts/chunk";
+import { getSynthesisCacheKey } from "~/server/tts/cache";
+import { hashContent } from "~/server/tts/hash";
+import { normalizeForSpeech, type SpeechOptions } from "~/server/tts/normalize";
+import { mapWithConcurrency } from "~/utils/concurrency";
 
 async function saveAudioFile(
   audioBuffer: Buffer,
   fileName: string,
-): Promise<string> {
+  contentType: string,
+): Promise<{ storageKey: string; url: string }> {
   try {
-    const upload = new Upload({
-      client: s3Client,
-      params: {
-        Bucket: env.AWS_S3_BUCKET,
-        Key: `audio/${fileName}`,
-        Body: audioBuffer,
-        ContentType: "audio/mpeg",
-      },
-    });
+    const storage = getStorage();
+    const storageKey = `audio/${fileName}`;
 
-    await upload.done();
-    return `https://fly.storage.tigris.dev/${env.AWS_S3_BUCKET}/audio/${fileName}`;
+    await storage.put(storageKey, audioBuffer, contentType);
+    return { storageKey, url: storage.url(storageKey) };
   } catch (error) {
-    console.error("Error uploading to S3:", error);
+    console.error("Error uploading audio file:", error);
     throw new Error(`Failed to upload audio file: ${(error as Error).message}`);
   }
 }
 
-async function generateAudio(text: string, voice: string): Promise<Buffer> {
+async function generateAudio(
+  request: SynthesisRequest,
+): Promise<SynthesisResult> {
   try {
-    const audio = await elevenlabs.generate({
-      voice,
-      text,
-      model_id: "eleven_multilingual_v2",
-    });
-
-    // Convert the stream to a buffer
-    const chunks: (Buffer & ArrayBufferLike)[] = [];
-    for await (const chunk of audio) {
-      chunks.push(Buffer.from(chunk) as Buffer & ArrayBufferLike);
-    }
-    const audioBuffer = Buffer.concat(chunks) as Buffer & ArrayBufferLike;
-
-    return audioBuffer;
+    return await getTtsProvider().synthesize(request);
   } catch (error) {
     console.error("Error generating audio:", error);
     throw new Error("Failed to generate audio: " + (error as Error).message);
   }
 }
 
-type TaskPayload = {
+// Lists the chunk keys a run has written, since storage cannot list keys.
+function getChunkManifestKey(runId: string) {
+  return `chunks/${runId}/manifest.json`;
+}
+
+/**
+ * Add chunk keys (and their word timings) to the run's manifest. Retries may
+ * split changed text differently, so keys of earlier attempts are kept.
+ */
+async function recordChunkKeys(runId: string, chunkKeys: string[]) {
+  const storage = getStorage();
+  const manifestKey = getChunkManifestKey(runId);
+  const manifest = await storage.get(manifestKey);
+  const recorded = manifest
+    ? (JSON.parse(manifest.body.toString("utf8")) as string[])
+    : [];
+  const keys = [
+    ...new Set([
+      ...recorded,
+      ...chunkKeys.flatMap((key) => [key, `${key}.json`]),
+    ]),
+  ];
+
+  await storage.put(
+    manifestKey,
+    Buffer.from(JSON.stringify(keys)),
+    "application/json",
+  );
+}
+
+/**
+ * Delete every chunk a run has written, once the run succeeded or failed for
+ * good. Missing objects are ignored.
+ */
+async function deleteRunChunks(runId: string) {
+  const storage = getStorage();
+  const manifestKey = getChunkManifestKey(runId);
+  const manifest = await storage.get(manifestKey);
+  if (!manifest) return;
+
+  const keys = JSON.parse(manifest.body.toString("utf8")) as string[];
+  await Promise.all(
+    keys.map((key) =>
+      storage
+        .delete(key)
+        .catch((error) =>
+          logger.warn("Failed to delete chunk", { key, error }),
+        ),
+    ),
+  );
+  await storage.delete(manifestKey);
+}
+
+/**
+ * Synthesize the page chunk by chunk. Every finished chunk is persisted under
+ * a key derived from the run id, which stays the same across retry attempts,
+ * so a retry only synthesizes the chunks that are still missing. Word timings
+ * are kept next to each chunk for the same reason.
+ */
+async function generateChunkedAudio(
+  runId: string,
+  text: string,
+  voice: string,
+  profile: SynthesisProfile,
+): Promise<{ audio: Buffer; alignment: Alignment }> {
+  const storage = getStorage();
+  const { capabilities } = getTtsProvider();
+  const chunks = splitIntoChunks(text, capabilities.maxCharacters);
+
+  if (chunks.length === 0) {
+    throw new Error("Page has no text to convert to audio");
+  }
+
+  logger.log("Synthesizing page", { chunks: chunks.length });
+
+  const chunkKeys = chunks.map(
+    (_, index) => `chunks/${runId}/${index}.${capabilities.fileExtension}`,
+  );
+  await recordChunkKeys(runId, chunkKeys);
+
+  const results = await mapWithConcurrency(
+    chunks,
+    capabilities.maxConcurrency,
+    async (chunk, index) => {
+      const key = chunkKeys[index]!;
+
+      const existing = await storage.get(key);
+      if (existing) {
+        logger.log("Reusing chunk from previous attempt", { index });
+        const timings = await storage.get(`${key}.json`);
+        return {
+          audio: existing.body,
+          words: timings
+            ? (JSON.parse(timings.body.toString("utf8")) as WordTiming[])
+            : undefined,
+        };
+      }
+
+      const result = await generateAudio({
+        text: chunk,
+        voice,
+        profile,
+        previousText: chunks[index - 1],
+        nextText: chunks[index + 1],
+      });
+      if (result.words) {
+        await storage.put(
+          `${key}.json`,
+          Buffer.from(JSON.stringify(result.words)),
+          "application/json",
+        );
+      }
+      await storage.put(key, result.audio, result.contentType);
+
+      return { audio: result.audio, words: result.words };
+    },
+  );
+
+  const alignment = joinAlignments(
+    text,
+    results.map(({ audio, words }, index) => {
+      const durationMs = getAudioDuration(audio, capabilities.contentType);
+      return {
+        text: chunks[index]!,
+        words: words ?? estimateWords(chunks[index]!, durationMs),
+        durationMs,
+      };
+    }),
+  );
+
+  return {
+    audio: concatAudio(
+      results.map((result) => result.audio),
+      capabilities.contentType,
+    ),
+    alignment,
+  };
+}
+
+// A take belongs to a page, or to a chapter for chapter jobs.
+type TakeTarget = { pageId?: number; chapterId?: number };
+
+function getTakeTarget(target: TakeTarget) {
+  if (target.chapterId !== undefined) {
+    return { pageId: null, chapterId: target.chapterId };
+  }
+  if (target.pageId !== undefined) {
+    return { pageId: target.pageId, chapterId: null };
+  }
+  throw new Error("Job has neither a page nor a chapter");
+}
+
+async function setActiveTake(target: TakeTarget, audioFileId: number) {
+  if (target.chapterId !== undefined) {
+    await db
+      .update(chapters)
+      .set({ activeAudioFileId: audioFileId })
+      .where(eq(chapters.id, target.chapterId));
+  } else if (target.pageId !== undefined) {
+    await db
+      .update(pages)
+      .set({ activeAudioFileId: audioFileId })
+      .where(eq(pages.id, target.pageId));
+  }
+}
+
+type TaskPayload = TakeTarget & {
+  jobId: number;
   documentId: number;
-  pageId: number;
-  content: string;
-  voice: string;
+  // Normalized text and voice. Parts of document jobs leave them out and load
+  // them when the run starts, so batches of parts stay small.
+  content?: string;
+  voice?: string;
+  // Speech options the content was normalized with.
+  settings: Partial<SpeechOptions>;
+  // Resolved when the job is created, so retries synthesize the same way.
+  profile: SynthesisProfile;
 };
 
+/**
+ * Text and voice of a document part: the current text of its page or chapter,
+ * normalized with the job's speech options, and the voice stored on the job.
+ */
+async function loadPart(payload: TaskPayload) {
+  const job = await db.query.generationJobs.findFirst({
+    where: eq(generationJobs.id, payload.jobId),
+    columns: { voice: true },
+  });
+
+  let text: string | undefined;
+  if (payload.chapterId !== undefined) {
+    const chapter = (await getChapters(payload.documentId)).find(
+      ({ id }) => id === payload.chapterId,
+    );
+    text = chapter?.content;
+  } else if (payload.pageId !== undefined) {
+    const page = await db.query.pages.findFirst({
+      where: eq(pages.id, payload.pageId),
+      columns: { content: true },
+    });
+    text = page?.content;
+  }
+
+  if (!job || text === undefined) {
+    throw new Error("Page or chapter of the job no longer exists");
+  }
+
+  return {
+    content: normalizeForSpeech(text, payload.settings),
+    voice: job.voice,
+  };
+}
+
 export const generateAudioTask = task({
   id: "generate-audio",
   // Set an optional maxDuration to prevent tasks from running indefinitely
-  maxDuration: 300, // Stop executing after 300 secs (5 mins) of compute
+  maxDuration: 900, // Stop executing after 900 secs (15 mins) of compute
   run: async (payload: TaskPayload, { ctx }) => {
     logger.log("Test the env", { env: env.AWS_S3_BUCKET });
     logger.log("Test the env", { env: process.env.AWS_S3_BUCKET });
 
-    // Convert text to speech using ElevenLabs
-    const audioBuffer = await generateAudio(payload.content, payload.voice);
+    if (!(await markJobRunning(payload.jobId, ctx.run.id))) {
+      logger.log("Job is no longer queued, skipping", { jobId: payload.jobId });
+      return { message: "Job was canceled", cacheHit: false };
+    }
+
+    const { content, voice } =
+      payload.content !== undefined && payload.voice !== undefined
+        ? { content: payload.content, voice: payload.voice }
+        : await loadPart(payload);
+
+    const provider = getTtsProvider();
+    const { capabilities } = provider;
+    const storage = getStorage();
+
+    // Identical input is stored once, under a key derived from that input
+    const cacheKey = getSynthesisCacheKey({
+      provider: provider.name,
+      voice,
+      profile: payload.profile,
+      text: content,
+    });
+    const fileName = `${cacheKey}.${capabilities.fileExtension}`;
+
+    const target = getTakeTarget(payload);
+
+    // The page or chapter already has this exact take, so make it active again
+    const existingTake = await db.query.audioFiles.findFirst({
+      where: and(
+        target.chapterId !== null
+          ? eq(audioFiles.chapterId, target.chapterId)
+          : eq(audioFiles.pageId, target.pageId),
+        eq(audioFiles.storageKey, `audio/${fileName}`),
+      ),
+    });
 
-    // Save the audio file
-    const fileName = `${payload.documentId}-${payload.pageId}-${Date.now()}.mp3`;
-    const audioPath = await saveAudioFile(audioBuffer, fileName);
+    if (existingTake) {
+      logger.log("Reusing existing take", { audioFileId: existingTake.id });
+      await setActiveTake(payload, existingTake.id);
+      await recordUsage(payload.jobId, {
+        provider: provider.name,
+        characters: 0,
+        durationMs: existingTake.durationMs ?? 0,
+        cacheHit: true,
+      });
+      await markJobCompleted(payload.jobId, {
+        audioFileId: existingTake.id,
+        cacheHit: true,
+      });
+
+      return { message: existingTake.filePath, cacheHit: true };
+    }
+
+    let audio: Buffer;
+    let alignment: Alignment | null = null;
+    let storageKey: string;
+    let url: string;
+
+    const cached = await storage.get(`audio/${fileName}`);
+    const cacheHit = !!cached;
+
+    if (cached) {
+      // Another page, chapter or document was synthesized from the same input
+      logger.log("Synthesis cache hit", { cacheKey });
+      audio = cached.body;
+      storageKey = `audio/${fileName}`;
+      url = storage.url(storageKey);
+
+      // Takes sharing the audio were synthesized from the same text
+      const sharedTake = await db.query.audioFiles.findFirst({
+        where: and(
+          eq(audioFiles.storageKey, storageKey),
+          isNotNull(audioFiles.alignment),
+        ),
+        columns: { alignment: true },
+      });
+      alignment = sharedTake?.alignment ?? null;
+    } else {
+      // Convert text to speech using the configured provider
+      const result = await generateChunkedAudio(
+        ctx.run.id,
+        content,
+        voice,
+        payload.profile,
+      );
+      audio = result.audio;
+      alignment = result.alignment;
+
+      // Save the audio file
+      ({ storageKey, url } = await saveAudioFile(
+        audio,
+        fileName,
+        capabilities.contentType,
+      ));
+
+      // The joined file is saved, so the intermediate chunks are no longer needed
+      await deleteRunChunks(ctx.run.id);
+    }
+
+    const durationMs = getAudioDuration(audio, capabilities.contentType);
+    alignment ??= {
+      text: content,
+      words: estimateWords(content, durationMs),
+    };
 
     const [audioFile] = await db
       .insert(audioFiles)
       .values({
-        pageId: payload.pageId,
+        ...target,
         fileName: fileName,
-        filePath: audioPath,
+        filePath: url,
+        storageKey,
+        durationMs,
+        sizeBytes: audio.length,
+        voice,
+        model: payload.profile.model,
+        settings: payload.settings,
+        profile: payload.profile,
+        contentHash: hashContent(content),
+        alignment,
       })
       .returning();
 
+    // A new take becomes the active one; users can switch back to older takes
+    if (audioFile) {
+      await setActiveTake(payload, audioFile.id);
+    }
+
+    // Only text that was sent to the provider counts against the quota
+    await recordUsage(payload.jobId, {
+      provider: provider.name,
+      characters: cacheHit ? 0 : content.length,
+      durationMs,
+      cacheHit,
+    });
+
+    await markJobCompleted(payload.jobId, {
+      audioFileId: audioFile?.id,
+      cacheHit,
+    });
+
     return {
-      message: audioPath,
+      message: url,
+      cacheHit,
     };
   },
+  onFailure: async (payload: TaskPayload, error, { ctx }) => {
+    await markJobFailed(payload.jobId, error);
+    // Chunks are only reused by retries of the same run, which are exhausted
+    await deleteRunChunks(ctx.run.id);
+  },
 });
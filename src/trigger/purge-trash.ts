@@ -0,0 +1,41 @@
+import { logger, schedules } from "@trigger.dev/sdk/v3";
+import { and, isNotNull, lt } from "drizzle-orm";
+
+import { db } from "~/server/db";
+import { documents } from "~/server/db/schema";
+import { getTrashCutoff, purgeDocument } from "~/server/documents";
+
+/**
+ * Permanently delete documents that have been in the trash for longer than
+ * `TRASH_RETENTION_DAYS`.
+ */
+export const purgeTrashTask = schedules.task({
+  id: "purge-trash",
+  // Every day at 03:00 UTC
+  cron: "0 3 * * *",
+  maxDuration: 900,
+  run: async () => {
+    const expired = await db.query.documents.findMany({
+      where: and(
+        isNotNull(documents.deletedAt),
+        lt(documents.deletedAt, getTrashCutoff()),
+      ),
+      columns: { id: true },
+    });
+
+    let purged = 0;
+    for (const document of expired) {
+      try {
+        await purgeDocument(document.id);
+        purged++;
+      } catch (error) {
+        logger.error("Failed to purge document", {
+          documentId: document.id,
+          error,
+        });
+      }
+    }
+
+    return { expired: expired.length, purged };
+  },
+});
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "~": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    env: { SKIP_ENV_VALIDATION: "1", TTS_PROVIDER: "local" },
+    include: ["src/**/*.test.ts"],
+  },
+});